@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Generate print-ready cover sheets from a JSON job, without a browser.
+ *
+ * Usage:
+ *   npm run sheets -- job.json [--out covers.pdf]
+ *
+ *   --out   PDF file to write, by default the job file name with .pdf
+ *
+ * The job lists the paper, the cover size and the pictures (JPEG files relative to the job file)
+ * with optional crops and codes, see "Generating sheets from scripts" in the README.
+ * `npm run sheets` compiles src/app/utils/sheet-job.ts to out-tsc/headless first.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import sheetJob from '../out-tsc/headless/utils/sheet-job.js';
+
+const { parseSheetJob, renderSheetJob } = sheetJob;
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const jobFile = args.find((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--out');
+if (!jobFile) {
+  console.error('Usage: npm run sheets -- job.json [--out covers.pdf]');
+  process.exit(1);
+}
+const outFile = option('--out') ?? jobFile.replace(/(\.json)?$/i, '.pdf');
+
+try {
+  let data;
+  try {
+    data = JSON.parse(await readFile(jobFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`"${jobFile}" is not a readable JSON file: ${error.message}`);
+  }
+
+  const job = parseSheetJob(data);
+  const baseDir = path.dirname(path.resolve(jobFile));
+  const result = await renderSheetJob(job, async (file) => new Uint8Array(await readFile(path.resolve(baseDir, file))));
+
+  await writeFile(outFile, result.pdf);
+  result.warnings.forEach(warning => console.warn(`Warning: ${warning}`));
+  console.log(`Wrote ${outFile}: ${job.images.length} ${job.images.length === 1 ? 'cover' : 'covers'} on ${result.pageCount} ${result.pageCount === 1 ? 'page' : 'pages'}.`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+/**
+ * Minimal TeddyCloud mock server for testing the library browser locally.
+ *
+ * Usage:
+ *   node scripts/teddycloud-mock-server.mjs [--port 8787] [--auth user:password] [--no-cors]
+ *
+ *   --auth      require HTTP basic auth with the given credentials
+ *   --no-cors   omit CORS headers to check how the app reports blocked requests
+ */
+import http from 'node:http';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const port = Number(option('--port') ?? 8787);
+const auth = option('--auth');
+const cors = !args.includes('--no-cors');
+
+const tonies = [
+  { model: '10000001', title: 'Die Maus', series: 'Die Sendung mit der Maus', episodes: 'Geschichten', color: '#f97316' },
+  { model: '10000002', title: 'Benjamin Blümchen', series: 'Benjamin Blümchen', episodes: 'Der Zoo-Ausflug', color: '#ef4444' },
+  { model: '10000003', title: 'Bibi Blocksberg', series: 'Bibi Blocksberg', episodes: 'Hexen gibt es doch', color: '#3b82f6' },
+  { model: '10000004', title: 'Conni', series: 'Meine Freundin Conni', episodes: 'Conni kommt in den Kindergarten', color: '#eab308' },
+  { model: '10000005', title: 'Pumuckl', series: 'Meister Eder und sein Pumuckl', episodes: 'Das verschwundene Werkzeug', color: '#22c55e' }
+];
+
+const customTonies = [
+  { model: 'custom-1', title: 'Gute Nacht Lieder', series: 'Familie', episodes: 'Teil 1', color: '#8b5cf6' },
+  { model: 'custom-2', title: 'Urlaub 2025', series: 'Familie', episodes: 'Hörspiel', color: '#14b8a6' }
+];
+
+const toJson = (entries) => entries.map(({ color, ...entry }) => ({
+  ...entry,
+  audio_id: [],
+  hash: [],
+  language: 'de-de',
+  pic: `/img/${entry.model}.svg`
+}));
+
+const coverSvg = (entry) => `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="600" viewBox="0 0 600 600">
+  <rect width="600" height="600" fill="${entry.color}"/>
+  <circle cx="300" cy="260" r="150" fill="white" fill-opacity="0.85"/>
+  <text x="300" y="500" font-family="sans-serif" font-size="48" text-anchor="middle" fill="white">${entry.title}</text>
+</svg>`;
+
+const server = http.createServer((req, res) => {
+  if (cors) {
+    // Echo the origin so requests with credentials are allowed as well
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization');
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (auth) {
+    const expected = `Basic ${Buffer.from(auth).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="TeddyCloud"' }).end('Unauthorized');
+      return;
+    }
+  }
+
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+  const image = url.pathname.match(/^\/img\/(.+)\.svg$/);
+
+  if (url.pathname === '/api/toniesJson') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(toJson(tonies)));
+  } else if (url.pathname === '/api/toniesCustomJson') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(toJson(customTonies)));
+  } else if (image) {
+    const entry = [...tonies, ...customTonies].find(e => e.model === image[1]);
+    if (entry) {
+      res.writeHead(200, { 'Content-Type': 'image/svg+xml' }).end(coverSvg(entry));
+    } else {
+      res.writeHead(404).end('Not found');
+    }
+  } else {
+    res.writeHead(404).end('Not found');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`TeddyCloud mock server on http://localhost:${port} (auth: ${auth ? 'on' : 'off'}, CORS: ${cors ? 'on' : 'off'})`);
+});
@@ -1,35 +1,87 @@
-import { Component, signal } from '@angular/core';
+import { Component, ElementRef, signal, viewChild } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { StorageService } from './services/storage.service';
-
-interface PlaceholderState {
-  id: number;
-  imageData: string | null;
-  offsetX: number;
-  offsetY: number;
-  scale: number;
-  imageWidth: number;
-  imageHeight: number;
-  left: number;
-  top: number;
-  isDragOver?: boolean;
-  isDraggingImage?: boolean;
+import { AppSettings, StorageService } from './services/storage.service';
+import { ProjectFileService } from './services/project-file.service';
+import { TemplateFileService } from './services/template-file.service';
+import { SessionService } from './services/session.service';
+import { DocumentHistoryService, HistoryState } from './services/document-history.service';
+import { ImportService } from './services/import.service';
+import { copyAdjustments, createEmptyImage, ImageLayout, ImageTransform, PLACEHOLDER_DRAG_TYPE, PlaceholderImage, PlaceholderShape, PlaceholderState, SheetPage, SheetSlot, toPlaceholderImage } from './models/sheet.model';
+import { downloadBlob } from './utils/download';
+import { TeddyCloudLibraryComponent } from './components/teddycloud-library/teddycloud-library.component';
+import { TeddyCloudCoverPick } from './services/teddycloud.service';
+import { CaptionEditorComponent } from './components/caption-editor/caption-editor.component';
+import { CaptionOverlayComponent } from './components/caption-overlay/caption-overlay.component';
+import { ImageTransformComponent } from './components/image-transform/image-transform.component';
+import { ImageAdjustmentsComponent } from './components/image-adjustments/image-adjustments.component';
+import { CoverCaption } from './models/caption.model';
+import { DEFAULT_ADJUSTMENTS, ImageAdjustments } from './models/adjustments.model';
+import { buildFilter, levelTransfer, measureAutoLevels } from './utils/image-adjustments';
+import { hasCaptionText } from './utils/caption-layout';
+import {
+  calculateGrid, calculateMinimumScale, constrainOffset, CSS_PX_PER_MM, fitImageToPlaceholder, getImageArea, getRotation, ImageArea
+} from './utils/sheet-layout';
+import { PaperSelection, PaperSettingsComponent } from './components/paper-settings/paper-settings.component';
+import { CUSTOM_PAPER_SIZE_ID, PAPER_SIZES, PaperOrientation, PaperSize } from './models/paper.model';
+import { SheetTemplatesComponent } from './components/sheet-templates/sheet-templates.component';
+import { SHEET_TEMPLATES, SheetTemplate } from './models/template.model';
+import { CoverMixComponent } from './components/cover-mix/cover-mix.component';
+import { CoverGroup, DEFAULT_COVER_MIX, describeCoverGroup, MAX_MIXED_COVERS, normalizeCoverMix } from './models/cover-mix.model';
+import { packCoverMix } from './utils/mixed-packing';
+import { BatchImportComponent } from './components/batch-import/batch-import.component';
+import { HoldingTrayComponent } from './components/holding-tray/holding-tray.component';
+import { ImportOptions, ImportOverflow, RejectedFile, TRAY_DRAG_TYPE, TrayImage } from './models/import.model';
+import { findImportProblem } from './utils/batch-import';
+import { adoptImage, getPreviewUrl, LoadedImage, readImageFile, releaseUnusedImages, replaceImageUrls } from './utils/image-file';
+import { fetchImageFile } from './utils/image-url';
+import { UrlImportComponent } from './components/url-import/url-import.component';
+import { CoverCopiesComponent } from './components/cover-copies/cover-copies.component';
+import { PreflightDialogComponent } from './components/preflight-dialog/preflight-dialog.component';
+import { DEFAULT_MINIMUM_DPI, PreflightAction, PreflightIssue } from './models/preflight.model';
+import { calculateEffectiveDpi } from './utils/preflight';
+import { PrinterCalibrationComponent } from './components/printer-calibration/printer-calibration.component';
+import { CalibrationSheetComponent } from './components/calibration-sheet/calibration-sheet.component';
+import { CalibrationProfile, NO_CALIBRATION, PrinterCalibration } from './models/calibration.model';
+import { calibrationCorrection, calibrationRulerLength, isCalibrated } from './utils/calibration';
+import { DuplexSettingsComponent } from './components/duplex-settings/duplex-settings.component';
+import { BackSideEditorComponent } from './components/back-side-editor/back-side-editor.component';
+import { BackSheetComponent } from './components/back-sheet/back-sheet.component';
+import { BackSheetCover, CoverBack, DuplexFlip, DuplexOptions, PrintSides } from './models/back-side.model';
+import { mirrorSlot, printSequence, resolveBackText } from './utils/duplex';
+import { CoverCodeOverlayComponent } from './components/cover-code-overlay/cover-code-overlay.component';
+import { CoverCodeEditorComponent } from './components/cover-code-editor/cover-code-editor.component';
+import { CoverCode } from './models/cover-code.model';
+
+// A picture with the size of the image area its framing refers to (mm)
+interface PlacedImage {
+  image: PlaceholderImage;
+  widthMm: number;
+  heightMm: number;
+  bleedMm: number;
 }
 
 interface DragState {
   active: boolean;
   placeholderId: number | null;
+  // Image area the pointers act on
+  element: HTMLElement | null;
+  // Pointer position (midpoint while pinching) when the gesture started and at the last move
   startX: number;
   startY: number;
+  lastX: number;
+  lastY: number;
   startOffsetX: number;
   startOffsetY: number;
+  // Distance between two fingers and the scale when the pinch started (0 without pinch)
+  startDistance: number;
+  startScale: number;
 }
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, CommonModule, FormsModule],
+  imports: [RouterOutlet, CommonModule, FormsModule, TeddyCloudLibraryComponent, CaptionEditorComponent, CaptionOverlayComponent, ImageTransformComponent, ImageAdjustmentsComponent, PaperSettingsComponent, SheetTemplatesComponent, CoverMixComponent, BatchImportComponent, HoldingTrayComponent, CoverCopiesComponent, PreflightDialogComponent, PrinterCalibrationComponent, CalibrationSheetComponent, DuplexSettingsComponent, BackSideEditorComponent, BackSheetComponent, CoverCodeOverlayComponent, CoverCodeEditorComponent, UrlImportComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.css'
 })
@@ -42,36 +94,127 @@ export class AppComponent {
   // Storage service
   private storageService = new StorageService();
 
+  // Project file service
+  private projectFileService = new ProjectFileService();
+
+  // Label sheet template import and export
+  private templateFileService = new TemplateFileService();
+
+  // Session persistence (IndexedDB)
+  private sessionService = new SessionService();
+
+  // Typed measurements are applied once typing pauses, so pictures aren't remapped for every digit
+  private readonly GRID_UPDATE_DELAY_MS = 300;
+  private gridUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+  restoredSession: { pictureCount: number; savedAt: Date } | null = null;
+
+  // Undo and redo of picture edits and settings
+  private documentHistory = new DocumentHistoryService();
+
   // Dark mode state
   isDarkMode = signal(false);
 
   // Modal state
   showImpressum = false;
+  showTeddyCloudLibrary = false;
+
+  // TeddyCloud server connection
+  teddyCloudUrl = '';
+  teddyCloudIncludeCredentials = false;
+  teddyCloudStatus = '';
+
+  // Batch import of many pictures into the empty placeholders and the holding tray
+  private importService = new ImportService();
+  importSortByName = false;
+  importOverflow: ImportOverflow = 'pages';
+
+  // Loading a picture from a web address
+  isLoadingUrl = false;
+  urlImportError = '';
 
-  // Paper sizes in cm
-  paperSizes = [
-    { label: '10×15 cm', width: 10, height: 15 },
-    { label: '13×18 cm', width: 13, height: 18 },
-    { label: 'A5', width: 14.8, height: 21 },
-    { label: 'A4', width: 21, height: 29.7 }
-  ];
-  selectedPaperSize = this.paperSizes[0];
-  selectedPaperSizeIndex = 0;
+  // Empty placeholder the file picker was opened for
+  private browseTarget: PlaceholderState | null = null;
+  private placeholderFileInput = viewChild<ElementRef<HTMLInputElement>>('placeholderFileInput');
+
+  // Crop taken with "Copy crop", pasted into other placeholders with the same framing
+  private copiedCover: PlacedImage | null = null;
+  copiesMessage = '';
+
+  // Built-in paper sizes and the user's own presets
+  paperSizes = PAPER_SIZES;
+  paperPresets: PaperSize[] = [];
+
+  // Selected paper: upright size in mm and orientation
+  paperSizeId = PAPER_SIZES[0].id;
+  paperWidthMm = PAPER_SIZES[0].widthMm;
+  paperHeightMm = PAPER_SIZES[0].heightMm;
+  paperOrientation: PaperOrientation = 'portrait';
+
+  // Size of the sheet as printed, in cm
+  selectedPaperSize = { width: PAPER_SIZES[0].widthMm / 10, height: PAPER_SIZES[0].heightMm / 10 };
+
+  // Label sheet templates with fixed slots; the selected one replaces the calculated grid and the paper size
+  sheetTemplates = SHEET_TEMPLATES;
+  userTemplates: SheetTemplate[] = [];
+  sheetTemplateId: string | null = null;
+  templateMessage = '';
 
   // Picture dimensions in mm
   pictureWidth = 44;
   pictureHeight = 44;
 
   // Placeholder shape
-  placeholderShape: 'rectangular' | 'round' = 'rectangular';
+  placeholderShape: PlaceholderShape = 'rectangular';
+
+  // Staggered rows for round placeholders, fitting more circles than the square grid
+  hexPacking = false;
+
+  // Covers per page gained (or lost) by staggered rows compared to the square grid
+  hexPackingGain = 0;
+
+  // Covers of different sizes packed onto the same sheets instead of one grid
+  mixedSizes = false;
+  coverMix: CoverGroup[] = normalizeCoverMix(DEFAULT_COVER_MIX);
 
   // Spacing in mm
   margins = 4;
   spacing = 2;
 
+  // Bleed in mm: the image extends this far beyond the cut line on every side
+  bleed = 0;
+
   // Allow whitespace when dragging images
   allowWhitespace = false;
 
+  // Frame new pictures around their subject instead of the centre
+  smartFraming = false;
+
+  // Covers below this resolution get a warning badge and are listed before printing (DPI)
+  minimumDpi = DEFAULT_MINIMUM_DPI;
+
+  // Printer calibration: saved profiles and the one applied to printing and export
+  calibrationProfiles: CalibrationProfile[] = [];
+  calibrationProfileId: string | null = null;
+
+  // The calibration sheet replaces the pages while its print dialog is open
+  printingCalibration = false;
+
+  // Double-sided printing: a back sheet after every page, mirrored for the way the paper is turned
+  backSides = false;
+  duplexFlip: DuplexFlip = 'long-edge';
+  printSides: PrintSides = 'both';
+  backMessage = '';
+
+  // The registration test replaces the pages while its print dialog is open
+  printingRegistration = false;
+
+  // Covers show their full-resolution pictures instead of the previews while printing
+  printingFullResolution = false;
+
+  // Open preflight dialog: what happens when the user continues, and what was found
+  preflightAction: PreflightAction | null = null;
+  preflightIssues: PreflightIssue[] = [];
+
   // Show crop marks for cutting
   showCropMarks = true;
 
@@ -82,63 +225,403 @@ export class AppComponent {
   hasLayoutError = false;
   errorMessage = '';
 
+  // PDF export state
+  isExportingPdf = false;
+  exportError = '';
+
+  // Project file state
+  projectError = '';
+
   // Calculated grid
   rows = 0;
   columns = 0;
-  placeholders: PlaceholderState[] = [];
-
-  // Grid offset for centering (in mm)
-  offsetX = 0;
-  offsetY = 0;
-
-  // Drag state for image positioning
-  private dragState: DragState = {
-    active: false,
-    placeholderId: null,
-    startX: 0,
-    startY: 0,
-    startOffsetX: 0,
-    startOffsetY: 0
-  };
+
+  // Document pages, all sharing the calculated grid
+  pages: SheetPage[] = [];
+  private nextPageId = 0;
+  private nextPlaceholderId = 0;
+
+  // Slots (in mm) of the current grid or template, shared by all pages
+  private gridSlots: SheetSlot[] = [];
+
+  // Slots of every page when mixing sizes; the packing decides the number of pages
+  private mixedPageSlots: SheetSlot[][] | null = null;
+
+  // Pictures without a slot in the current cover mix, kept until the mix has room again
+  private overflowImages: ImageLayout['images'] = [];
+
+  // Bleed the current grid was calculated for (in mm)
+  gridBleedMm = 0;
+
+  // Pictures waiting for a valid grid while the layout has an error
+  private pendingLayout: ImageLayout | null = null;
+
+  // Selected placeholder: receives pictures picked from the TeddyCloud library and its caption is edited in the sidebar
+  selectedPlaceholderId: number | null = null;
+
+  // Template access to the caption helper
+  readonly hasCaptionText = hasCaptionText;
+
+  // Drag and pinch state for image positioning
+  private dragState: DragState = this.createIdleDragState();
+  private activePointers = new Map<number, { x: number; y: number }>();
+
+  // Zoom per wheel tick or key press, keyboard nudge distances (CSS pixels)
+  private readonly ZOOM_STEP = 1.1;
+  private readonly NUDGE_STEP_PX = 1;
+  private readonly NUDGE_STEP_LARGE_PX = 10;
 
   ngOnInit() {
-    // Load settings from storage
-    const settings = this.storageService.loadSettings();
+    // Presets and templates first, the stored settings may refer to one of them
+    this.paperPresets = this.storageService.loadPaperPresets();
+    this.calibrationProfiles = this.storageService.loadCalibrationProfiles();
+    this.userTemplates = this.storageService.loadSheetTemplates();
+
+    // Load and apply settings from storage
+    this.applySettings(this.storageService.loadSettings());
+
+    // Load and apply dark mode preference
+    this.isDarkMode.set(this.storageService.getDarkMode());
+
+    this.calculateGrid();
+    this.updatePrintStyles();
+
+    // Restore the pictures of the previous session
+    this.restoreSession();
+
+    // Global pointer listeners for dragging and pinching pictures
+    document.addEventListener('pointermove', this.onPointerMove.bind(this));
+    document.addEventListener('pointerup', this.onPointerUp.bind(this));
+    document.addEventListener('pointercancel', this.onPointerUp.bind(this));
+
+    // Undo and redo shortcuts
+    document.addEventListener('keydown', this.onKeyDown.bind(this));
+
+    // Pictures pasted from the clipboard
+    document.addEventListener('paste', this.onPaste.bind(this));
+  }
 
-    // Apply loaded settings
-    this.selectedPaperSizeIndex = settings.selectedPaperSizeIndex;
-    this.selectedPaperSize = this.paperSizes[settings.selectedPaperSizeIndex];
+  /**
+   * Apply stored or imported settings (dark mode is handled separately)
+   */
+  private applySettings(settings: AppSettings): void {
+    this.sheetTemplateId = this.findTemplate(settings.sheetTemplateId) ? settings.sheetTemplateId : null;
+    this.applyPaperSelection({
+      paperSizeId: settings.paperSizeId,
+      widthMm: settings.paperWidthMm,
+      heightMm: settings.paperHeightMm,
+      orientation: settings.paperOrientation
+    });
     this.pictureWidth = settings.pictureWidth;
     this.pictureHeight = settings.pictureHeight;
     this.margins = settings.margins;
     this.spacing = settings.spacing;
+    this.bleed = settings.bleed;
     this.allowWhitespace = settings.allowWhitespace;
+    this.smartFraming = settings.smartFraming;
+    this.minimumDpi = settings.minimumDpi > 0 ? settings.minimumDpi : DEFAULT_MINIMUM_DPI;
+    this.calibrationProfileId = this.calibrationProfiles.some(profile => profile.id === settings.calibrationProfileId)
+      ? settings.calibrationProfileId
+      : null;
+    this.backSides = settings.backSides;
+    this.duplexFlip = settings.duplexFlip;
+    this.printSides = settings.printSides;
     this.showCropMarks = settings.showCropMarks;
     this.placeholderShape = settings.placeholderShape;
+    this.hexPacking = settings.hexPacking;
+    this.mixedSizes = settings.mixedSizes;
+    this.coverMix = normalizeCoverMix(settings.coverMix);
+    this.importSortByName = settings.importSortByName;
+    this.importOverflow = settings.importOverflow;
+    this.teddyCloudUrl = settings.teddyCloudUrl;
+    this.teddyCloudIncludeCredentials = settings.teddyCloudIncludeCredentials;
+  }
 
-    // Load and apply dark mode preference
-    this.isDarkMode.set(this.storageService.getDarkMode());
-
+  onPaperChange(selection: PaperSelection) {
+    this.applyPaperSelection(selection);
     this.calculateGrid();
     this.updatePrintStyles();
+    this.saveSettings();
+  }
+
+  /**
+   * Store the current custom size under a name and select it
+   */
+  onSavePaperPreset(name: string) {
+    // Saving under an existing name updates that preset
+    const existing = this.paperPresets.find(preset => preset.label.toLowerCase() === name.toLowerCase());
+    const preset: PaperSize = {
+      id: existing?.id ?? this.storageService.createId('preset'),
+      label: name,
+      widthMm: this.paperWidthMm,
+      heightMm: this.paperHeightMm
+    };
+
+    this.paperPresets = existing
+      ? this.paperPresets.map(p => p.id === existing.id ? preset : p)
+      : [...this.paperPresets, preset];
+    this.storageService.savePaperPresets(this.paperPresets);
+
+    this.paperSizeId = preset.id;
+    this.saveSettings();
+  }
+
+  onDeletePaperPreset(id: string) {
+    this.paperPresets = this.paperPresets.filter(preset => preset.id !== id);
+    this.storageService.savePaperPresets(this.paperPresets);
+
+    // The sheet keeps its size, it is just no longer named
+    if (this.paperSizeId === id) {
+      this.paperSizeId = CUSTOM_PAPER_SIZE_ID;
+      this.saveSettings();
+    }
+  }
+
+  get activeCalibration(): PrinterCalibration {
+    return this.calibrationProfiles.find(profile => profile.id === this.calibrationProfileId) ?? NO_CALIBRATION;
+  }
+
+  // Ruler lengths of the calibration sheet on the current paper (mm)
+  get calibrationRulerXMm(): number {
+    return calibrationRulerLength(this.selectedPaperSize.width * 10);
+  }
+
+  get calibrationRulerYMm(): number {
+    return calibrationRulerLength(this.selectedPaperSize.height * 10);
+  }
+
+  onCalibrationProfileChange(id: string | null) {
+    this.calibrationProfileId = id;
+    this.updatePrintStyles();
+    this.saveSettings();
+  }
+
+  onSaveCalibrationProfile(profile: CalibrationProfile) {
+    // Saving under an existing name updates that profile
+    const existing = this.calibrationProfiles.find(p => p.id === profile.id || p.name.toLowerCase() === profile.name.toLowerCase());
+    const saved: CalibrationProfile = { ...profile, id: existing?.id ?? this.storageService.createId('printer') };
+
+    this.calibrationProfiles = existing
+      ? this.calibrationProfiles.map(p => p.id === existing.id ? saved : p)
+      : [...this.calibrationProfiles, saved];
+    this.storageService.saveCalibrationProfiles(this.calibrationProfiles);
+
+    this.onCalibrationProfileChange(saved.id);
+  }
+
+  onDeleteCalibrationProfile(id: string) {
+    this.calibrationProfiles = this.calibrationProfiles.filter(profile => profile.id !== id);
+    this.storageService.saveCalibrationProfiles(this.calibrationProfiles);
+
+    if (this.calibrationProfileId === id) {
+      this.onCalibrationProfileChange(null);
+    }
+  }
+
+  /**
+   * Print the rulers of the calibration sheet instead of the pages, without any correction
+   */
+  printCalibrationSheet() {
+    this.printingCalibration = true;
+    // Let the sheet render first; print() returns when the dialog is closed
+    setTimeout(() => {
+      window.print();
+      this.printingCalibration = false;
+    });
+  }
+
+  get duplexOptions(): DuplexOptions {
+    return { backSides: this.backSides, flip: this.duplexFlip, printSides: this.printSides };
+  }
+
+  onDuplexOptionsChange(options: DuplexOptions) {
+    this.backSides = options.backSides;
+    this.duplexFlip = options.flip;
+    this.printSides = options.printSides;
+    this.saveSettings();
+  }
+
+  /**
+   * Backs of a page's covers at their mirrored positions; empty placeholders get no back
+   */
+  getBackCovers(page: SheetPage): BackSheetCover[] {
+    return page.placeholders.map(placeholder => {
+      const back = placeholder.imageData ? placeholder.back : null;
+      return {
+        ...this.mirrorBackSlot(placeholder),
+        back,
+        text: back ? resolveBackText(back, placeholder.caption?.title ?? '', placeholder.contentName) : '',
+        code: placeholder.imageData && placeholder.code?.placement === 'back' ? placeholder.code : null
+      };
+    });
+  }
+
+  // Cut areas of the first page for the registration test, mirrored on the back side
+  getRegistrationCovers(side: 'front' | 'back'): BackSheetCover[] {
+    return (this.pages[0]?.placeholders ?? []).map(placeholder => ({
+      ...(side === 'back' ? this.mirrorBackSlot(placeholder) : this.toSlot(placeholder)),
+      back: null,
+      text: '',
+      code: null
+    }));
+  }
+
+  // Whether a sheet side is sent to the printer, and whether it is the last one
+  isPrinted(pageIndex: number, side: 'front' | 'back'): boolean {
+    return printSequence(this.pages.length, this.backSides, this.printSides)
+      .some(printed => printed.pageIndex === pageIndex && printed.side === side);
+  }
+
+  isLastPrinted(pageIndex: number, side: 'front' | 'back'): boolean {
+    const last = printSequence(this.pages.length, this.backSides, this.printSides).at(-1);
+    return last?.pageIndex === pageIndex && last.side === side;
+  }
+
+  private toSlot(placeholder: PlaceholderState): SheetSlot {
+    return { left: placeholder.left, top: placeholder.top, width: placeholder.width, height: placeholder.height, shape: placeholder.shape };
+  }
+
+  private mirrorBackSlot(placeholder: PlaceholderState): SheetSlot {
+    return mirrorSlot(this.toSlot(placeholder), this.selectedPaperSize.width * 10, this.selectedPaperSize.height * 10, this.duplexFlip);
+  }
+
+  /**
+   * Print outlines of the first page's cut areas on both sides of one sheet.
+   * Held against the light, the crosses show how far the printer shifts the back.
+   */
+  printRegistrationTest() {
+    this.printingRegistration = true;
+    // Let the test render first; print() returns when the dialog is closed
+    setTimeout(() => {
+      window.print();
+      this.printingRegistration = false;
+    });
+  }
+
+  /**
+   * Select a paper size; unknown IDs (e.g. a preset from another browser) become a custom size
+   */
+  private applyPaperSelection(selection: PaperSelection): void {
+    const hasSize = selection.widthMm > 0 && selection.heightMm > 0;
+    const known = [...this.paperSizes, ...this.paperPresets].find(size => size.id === selection.paperSizeId)
+      ?? (hasSize ? undefined : this.paperSizes[0]);
+
+    this.paperSizeId = known ? known.id : CUSTOM_PAPER_SIZE_ID;
+    this.paperWidthMm = known ? known.widthMm : selection.widthMm;
+    this.paperHeightMm = known ? known.heightMm : selection.heightMm;
+    this.paperOrientation = selection.orientation === 'landscape' ? 'landscape' : 'portrait';
+    this.updateSheetSize();
+  }
+
+  /**
+   * Size of the printed sheet: the paper of the selected template, or the oriented paper size
+   */
+  private updateSheetSize(): void {
+    const template = this.activeTemplate;
+    if (template) {
+      this.selectedPaperSize = { width: template.paperWidthMm / 10, height: template.paperHeightMm / 10 };
+      return;
+    }
+
+    const landscape = this.paperOrientation === 'landscape';
+    const widthMm = landscape ? this.paperHeightMm : this.paperWidthMm;
+    const heightMm = landscape ? this.paperWidthMm : this.paperHeightMm;
+    this.selectedPaperSize = { width: widthMm / 10, height: heightMm / 10 };
+  }
+
+  get activeTemplate(): SheetTemplate | null {
+    return this.findTemplate(this.sheetTemplateId);
+  }
 
-    // Add global mouse event listeners for image dragging
-    document.addEventListener('mousemove', this.onMouseMove.bind(this));
-    document.addEventListener('mouseup', this.onMouseUp.bind(this));
+  private findTemplate(id: string | null): SheetTemplate | null {
+    return [...this.sheetTemplates, ...this.userTemplates].find(template => template.id === id) ?? null;
   }
 
-  onPaperSizeChange(event: Event) {
-    const select = event.target as HTMLSelectElement;
-    this.selectedPaperSizeIndex = parseInt(select.value);
-    this.selectedPaperSize = this.paperSizes[this.selectedPaperSizeIndex];
+  onSheetTemplateChange(id: string | null) {
+    this.sheetTemplateId = id;
+    this.templateMessage = '';
+    this.updateSheetSize();
     this.calculateGrid();
     this.updatePrintStyles();
     this.saveSettings();
   }
 
+  onSaveSheetTemplate(template: SheetTemplate) {
+    const saved = { ...template, id: this.storageService.createId('template') };
+    this.userTemplates = [...this.userTemplates, saved];
+    this.storageService.saveSheetTemplates(this.userTemplates);
+    this.onSheetTemplateChange(saved.id);
+  }
+
+  onDeleteSheetTemplate(id: string) {
+    const template = this.userTemplates.find(t => t.id === id);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+
+    this.userTemplates = this.userTemplates.filter(t => t.id !== id);
+    this.storageService.saveSheetTemplates(this.userTemplates);
+    if (this.sheetTemplateId === id) {
+      this.onSheetTemplateChange(null);
+    }
+  }
+
+  async importSheetTemplates(file: File): Promise<void> {
+    try {
+      const templates = await this.templateFileService.readTemplates(file);
+      templates.forEach(template => this.addUserTemplate(template));
+      this.storageService.saveSheetTemplates(this.userTemplates);
+      this.templateMessage = `Imported ${templates.length} ${templates.length === 1 ? 'template' : 'templates'}.`;
+    } catch (error) {
+      console.warn('Failed to import templates:', error);
+      this.templateMessage = error instanceof Error ? error.message : 'Failed to import templates.';
+    }
+  }
+
+  exportSheetTemplates(): void {
+    downloadBlob(this.templateFileService.createTemplateFile(this.userTemplates), 'cover-templates.json');
+  }
+
+  /**
+   * Add or update a user template. Templates keep their ID unless it belongs to a built-in template.
+   */
+  private addUserTemplate(template: SheetTemplate): void {
+    if (!template.id || this.sheetTemplates.some(t => t.id === template.id)) {
+      template = { ...template, id: this.storageService.createId('template') };
+    }
+    const exists = this.userTemplates.some(t => t.id === template.id);
+    this.userTemplates = exists
+      ? this.userTemplates.map(t => t.id === template.id ? template : t)
+      : [...this.userTemplates, template];
+  }
+
   onParameterChange() {
-    this.calculateGrid();
+    // Typing a value digit by digit is one step
+    this.scheduleHistoryStep('settings');
     this.saveSettings();
+
+    this.cancelGridUpdate();
+    this.gridUpdateTimer = setTimeout(() => {
+      this.gridUpdateTimer = null;
+      this.calculateGrid('settings');
+    }, this.GRID_UPDATE_DELAY_MS);
+  }
+
+  /**
+   * Recalculate right away if a typed measurement is still waiting,
+   * so saving and printing see the layout that matches the settings
+   */
+  private applyPendingGridUpdate(): void {
+    if (this.gridUpdateTimer) {
+      this.calculateGrid('settings');
+    }
+  }
+
+  private cancelGridUpdate(): void {
+    if (this.gridUpdateTimer) {
+      clearTimeout(this.gridUpdateTimer);
+      this.gridUpdateTimer = null;
+    }
   }
 
   onAllowWhitespaceChange() {
@@ -149,133 +632,468 @@ export class AppComponent {
       }
     });
     this.saveSettings();
+    this.documentChanged();
+  }
+
+  onSmartFramingChange() {
+    this.saveSettings();
+  }
+
+  onMinimumDpiChange() {
+    this.scheduleHistoryStep('settings');
+    this.saveSettings();
+  }
+
+  /**
+   * Recalculate the grid and map the existing pictures onto the new layout
+   */
+  calculateGrid(historyMergeKey: string | null = null) {
+    this.cancelGridUpdate();
+    const layout = this.captureLayout();
+
+    this.layoutGrid();
+
+    if (this.hasLayoutError) {
+      // Keep the pictures until the configuration is valid again
+      this.pendingLayout = layout.images.length > 0 ? layout : null;
+    } else {
+      this.pendingLayout = null;
+      this.applyLayout(layout);
+    }
+
+    this.documentChanged(historyMergeKey);
   }
 
-  calculateGrid() {
+  private layoutGrid() {
     // Convert all measurements to mm for consistency
     const paperWidthMm = this.selectedPaperSize.width * 10; // cm to mm
     const paperHeightMm = this.selectedPaperSize.height * 10; // cm to mm
 
-    // For round placeholders, use diameter for both dimensions
-    const pictureWidthMm = this.pictureWidth;
-    const pictureHeightMm = this.placeholderShape === 'round' ? this.pictureWidth : this.pictureHeight;
-
     const marginMm = this.margins;
     const spacingMm = this.spacing;
+    const bleedMm = Math.max(0, this.bleed || 0);
+
+    // Every document has at least one page
+    if (this.pages.length === 0) {
+      this.pages = [this.createPage()];
+    }
 
     // Check for errors before calculating grid
     this.hasLayoutError = false;
     this.errorMessage = '';
+    this.hexPackingGain = 0;
+    this.mixedPageSlots = null;
 
-    // Check if picture size (with margins) exceeds paper size
-    const minRequiredWidth = pictureWidthMm + (2 * marginMm);
-    const minRequiredHeight = pictureHeightMm + (2 * marginMm);
+    const template = this.activeTemplate;
+    if (template) {
+      this.layoutTemplate(template, bleedMm);
+      return;
+    }
 
-    if (minRequiredWidth > paperWidthMm) {
-      this.hasLayoutError = true;
-      this.errorMessage = `Error: Picture width (${pictureWidthMm}mm) plus margins (2×${marginMm}mm = ${2*marginMm}mm) exceeds paper width (${paperWidthMm}mm). Required: ${minRequiredWidth}mm, available: ${paperWidthMm}mm.`;
-      this.rows = 0;
-      this.columns = 0;
-      this.placeholders = [];
+    if (this.mixedSizes) {
+      this.layoutCoverMix(paperWidthMm, paperHeightMm, marginMm, spacingMm, bleedMm);
       return;
     }
 
-    if (minRequiredHeight > paperHeightMm) {
-      this.hasLayoutError = true;
-      this.errorMessage = `Error: Picture height (${pictureHeightMm}mm) plus margins (2×${marginMm}mm = ${2*marginMm}mm) exceeds paper height (${paperHeightMm}mm). Required: ${minRequiredHeight}mm, available: ${paperHeightMm}mm.`;
-      this.rows = 0;
-      this.columns = 0;
-      this.placeholders = [];
+    const grid = calculateGrid({
+      paperWidthMm,
+      paperHeightMm,
+      pictureWidthMm: this.pictureWidth,
+      pictureHeightMm: this.pictureHeight,
+      shape: this.placeholderShape,
+      marginMm,
+      spacingMm,
+      bleedMm,
+      hexPacking: this.usesHexPacking
+    });
+    if (grid.error) {
+      this.setLayoutError(grid.error);
       return;
     }
 
-    // Calculate available space (subtracting margins from both sides)
-    const availableWidth = paperWidthMm - (2 * marginMm);
-    const availableHeight = paperHeightMm - (2 * marginMm);
+    this.rows = grid.rows;
+    this.columns = grid.columns;
+    this.hexPackingGain = grid.hexPackingGain;
+    this.gridSlots = grid.slots;
+    this.gridBleedMm = bleedMm;
+
+    // Generate placeholder arrays with position information for every page
+    this.rebuildPages();
+  }
+
+  private setLayoutError(message: string): void {
+    this.hasLayoutError = true;
+    this.errorMessage = message;
+    this.rows = 0;
+    this.columns = 0;
+    this.gridSlots = [];
+    this.pages.forEach(page => page.placeholders = []);
+  }
+
+  get usesHexPacking(): boolean {
+    return this.hexPacking && this.placeholderShape === 'round' && !this.activeTemplate && !this.mixedSizes;
+  }
+
+  get usesCoverMix(): boolean {
+    return this.mixedSizes && !this.activeTemplate;
+  }
+
+  /**
+   * Pack the covers of the mix onto as many pages as they need.
+   * Every page gets its own arrangement; pages can't be added or removed by hand.
+   */
+  private layoutCoverMix(paperWidthMm: number, paperHeightMm: number, marginMm: number, spacingMm: number, bleedMm: number) {
+    const coverCount = this.coverMix.reduce((sum, group) => sum + group.quantity, 0);
+    if (coverCount === 0) {
+      this.setLayoutError('Error: The cover mix is empty. Add at least one cover size.');
+      return;
+    }
+    if (coverCount > MAX_MIXED_COVERS) {
+      this.setLayoutError(`Error: The cover mix has ${coverCount} covers. At most ${MAX_MIXED_COVERS} covers are supported, please reduce the quantities.`);
+      return;
+    }
 
-    // Calculate how many pictures fit
-    // Formula: floor((available + spacing) / (picture + spacing))
-    // The spacing is added to available because the last picture doesn't need spacing after it
-    this.columns = Math.floor((availableWidth + spacingMm) / (pictureWidthMm + spacingMm));
-    this.rows = Math.floor((availableHeight + spacingMm) / (pictureHeightMm + spacingMm));
+    const packing = packCoverMix(this.coverMix, {
+      paperWidthMm,
+      paperHeightMm,
+      marginMm,
+      spacingMm,
+      bleedMm
+    });
 
-    // Check if no pictures can fit (even though individual size checks passed)
-    if (this.columns <= 0 || this.rows <= 0) {
-      this.hasLayoutError = true;
-      this.errorMessage = `Error: No space for pictures on the selected paper. Picture size: ${pictureWidthMm}×${pictureHeightMm}mm, available area after margins: ${availableWidth}×${availableHeight}mm. Please reduce picture size or margins.`;
-      this.rows = 0;
-      this.columns = 0;
-      this.placeholders = [];
+    if (packing.oversized.length > 0) {
+      const sizes = packing.oversized.map(describeCoverGroup).join(', ');
+      const bleedNote = bleedMm > 0 ? ` plus bleed (2×${bleedMm}mm)` : '';
+      this.setLayoutError(`Error: Covers of ${sizes}${bleedNote} don't fit on the paper (${paperWidthMm}×${paperHeightMm}mm). Available area after margins: ${paperWidthMm - 2 * marginMm}×${paperHeightMm - 2 * marginMm}mm. Please reduce the cover size or margins.`);
       return;
     }
 
-    // Calculate total grid dimensions (without the trailing spacing)
-    const totalGridWidth = (this.columns * pictureWidthMm) + ((this.columns - 1) * spacingMm);
-    const totalGridHeight = (this.rows * pictureHeightMm) + ((this.rows - 1) * spacingMm);
+    this.rows = 0;
+    this.columns = 0;
+    this.gridSlots = [];
+    this.mixedPageSlots = packing.pages;
+    this.gridBleedMm = bleedMm;
+    this.rebuildPages();
+  }
 
-    // Center the grid within available space
-    this.offsetX = marginMm + (availableWidth - totalGridWidth) / 2;
-    this.offsetY = marginMm + (availableHeight - totalGridHeight) / 2;
+  // Arrangement shown in the layout summary
+  get layoutLabel(): string {
+    if (this.activeTemplate) {
+      return 'Template';
+    }
+    if (this.usesCoverMix) {
+      return 'Mixed';
+    }
+    return this.usesHexPacking ? 'Staggered' : `${this.columns} × ${this.rows}`;
+  }
 
-    // Generate placeholder array with position information
-    const totalPlaceholders = this.rows * this.columns;
-    this.placeholders = Array(totalPlaceholders).fill(null).map((_, index) => {
-      const row = Math.floor(index / this.columns);
-      const col = index % this.columns;
+  /**
+   * Use the fixed slots of a label sheet template instead of the calculated grid.
+   * Margins and spacing don't apply; the bleed must not reach the neighbouring labels.
+   */
+  private layoutTemplate(template: SheetTemplate, bleedMm: number) {
+    const smallestGap = this.findSmallestGap(template.slots);
+    if (bleedMm > 0 && 2 * bleedMm > smallestGap) {
+      this.setLayoutError(`Error: The bleed (2×${bleedMm}mm) is wider than the ${Math.round(smallestGap * 100) / 100}mm gap between the labels of "${template.name}". Reduce the bleed to at most ${Math.floor(smallestGap / 2 * 10) / 10}mm.`);
+      return;
+    }
 
-      return {
-        id: index,
-        imageData: null,
-        offsetX: 0,
-        offsetY: 0,
-        scale: 1,
-        imageWidth: 0,
-        imageHeight: 0,
-        // Calculate position in mm
-        left: this.offsetX + (col * (pictureWidthMm + spacingMm)),
-        top: this.offsetY + (row * (pictureHeightMm + spacingMm)),
-        isDragOver: false
-      };
+    this.rows = 0;
+    this.columns = 0;
+    this.gridSlots = template.slots.map(slot => ({ ...slot }));
+    this.gridBleedMm = bleedMm;
+    this.rebuildPages();
+  }
+
+  // Smallest horizontal or vertical distance between two labels (mm)
+  private findSmallestGap(slots: SheetSlot[]): number {
+    let smallest = Infinity;
+    slots.forEach((slot, index) => {
+      slots.slice(index + 1).forEach(other => {
+        const gapX = Math.max(other.left - (slot.left + slot.width), slot.left - (other.left + other.width));
+        const gapY = Math.max(other.top - (slot.top + slot.height), slot.top - (other.top + other.height));
+        smallest = Math.min(smallest, Math.max(gapX, gapY));
+      });
     });
+    return smallest;
   }
 
-  updatePrintStyles() {
-    // Remove existing dynamic print styles
-    const existingStyle = document.getElementById('dynamic-print-styles');
-    if (existingStyle) {
-      existingStyle.remove();
+  /**
+   * Number of covers on every page
+   */
+  get slotsPerPage(): number {
+    return this.gridSlots.length;
+  }
+
+  // Crop marks would be printed onto neighbouring labels of a pre-cut sheet
+  get cropMarksAvailable(): boolean {
+    if (this.activeTemplate) {
+      return false;
     }
+    return this.usesCoverMix
+      ? this.coverMix.some(group => group.shape === 'rectangular')
+      : this.placeholderShape === 'rectangular';
+  }
 
-    // Create new style element with dynamic print styles
-    const style = document.createElement('style');
-    style.id = 'dynamic-print-styles';
-    style.innerHTML = `
-      @media print {
-        @page {
-          size: ${this.selectedPaperSize.width}cm ${this.selectedPaperSize.height}cm;
-          margin: 0;
-        }
+  /**
+   * Pictures that don't fit the current cover mix
+   */
+  get overflowCount(): number {
+    return this.overflowImages.length;
+  }
 
-        html {
-          height: ${this.selectedPaperSize.height}cm;
-          width: ${this.selectedPaperSize.width}cm;
-        }
+  /**
+   * Snapshot all pictures by their linear slot index
+   */
+  private captureLayout(): ImageLayout {
+    if (this.pendingLayout) {
+      return this.pendingLayout;
+    }
 
-        body {
-          background: white !important;
-          margin: 0 !important;
-          padding: 0 !important;
-          height: ${this.selectedPaperSize.height}cm !important;
-          width: ${this.selectedPaperSize.width}cm !important;
-          overflow: hidden !important;
-          position: relative !important;
+    const slotsPerPage = this.gridSlots.length;
+    const bleed = 2 * this.gridBleedMm;
+    const images: ImageLayout['images'] = [];
+    let index = 0;
+    this.placeholders.forEach(placeholder => {
+      if (placeholder.imageData) {
+        images.push({
+          index,
+          image: toPlaceholderImage(placeholder),
+          widthMm: placeholder.width + bleed,
+          heightMm: placeholder.height + bleed
+        });
+      }
+      index++;
+    });
+
+    // Pictures left over by a cover mix follow all slots
+    this.overflowImages.forEach(entry => images.push({ ...entry, index: index++ }));
+
+    const firstSlot = this.gridSlots[0];
+    return {
+      slotsPerPage,
+      pageCount: this.pages.length,
+      placeholderWidthMm: firstSlot ? firstSlot.width + bleed : 0,
+      placeholderHeightMm: firstSlot ? firstSlot.height + bleed : 0,
+      bleedMm: this.gridBleedMm,
+      images
+    };
+  }
+
+  /**
+   * Put pictures back onto the current grid.
+   * Pictures keep their order; pages are added when fewer slots fit per page.
+   * A cover mix has a fixed number of slots, pictures beyond them are kept aside.
+   */
+  private applyLayout(layout: ImageLayout): void {
+    this.overflowImages = [];
+
+    if (this.mixedPageSlots) {
+      const placeholders = this.placeholders;
+      layout.images.forEach(entry => {
+        const placeholder = placeholders[entry.index];
+        if (placeholder) {
+          this.placeImage(placeholder, this.fromLayout(entry, layout));
+        } else {
+          this.overflowImages.push(entry);
+        }
+      });
+      return;
+    }
+
+    const slotsPerPage = this.gridSlots.length;
+    if (slotsPerPage === 0) {
+      return;
+    }
+
+    const lastIndex = layout.images.reduce((max, entry) => Math.max(max, entry.index), -1);
+    const pageCount = Math.max(
+      1,
+      layout.slotsPerPage === slotsPerPage ? layout.pageCount : 0,
+      Math.ceil((lastIndex + 1) / slotsPerPage)
+    );
+
+    while (this.pages.length < pageCount) {
+      this.pages.push(this.createPage());
+    }
+    this.pages = this.pages.slice(0, pageCount);
+
+    layout.images.forEach(entry => {
+      const placeholder = this.pages[Math.floor(entry.index / slotsPerPage)].placeholders[entry.index % slotsPerPage];
+      this.placeImage(placeholder, this.fromLayout(entry, layout));
+    });
+  }
+
+  private fromLayout(entry: ImageLayout['images'][number], layout: ImageLayout): PlacedImage {
+    return {
+      image: entry.image,
+      widthMm: entry.widthMm ?? layout.placeholderWidthMm,
+      heightMm: entry.heightMm ?? layout.placeholderHeightMm,
+      bleedMm: layout.bleedMm ?? 0
+    };
+  }
+
+  /**
+   * Copy the picture of a placeholder with the size its framing refers to
+   */
+  private captureImage(placeholder: PlaceholderState): PlacedImage {
+    const bleed = 2 * this.gridBleedMm;
+    return {
+      image: toPlaceholderImage(placeholder),
+      widthMm: placeholder.width + bleed,
+      heightMm: placeholder.height + bleed,
+      bleedMm: this.gridBleedMm
+    };
+  }
+
+  /**
+   * Put a picture into a placeholder, keeping its framing if the placeholder has a different size
+   */
+  private placeImage(placeholder: PlaceholderState, placed: PlacedImage): void {
+    Object.assign(placeholder, toPlaceholderImage(placed.image));
+
+    const bleed = 2 * this.gridBleedMm;
+    const sizeChanged = placed.widthMm !== placeholder.width + bleed ||
+      placed.heightMm !== placeholder.height + bleed ||
+      placed.bleedMm !== this.gridBleedMm;
+
+    if (sizeChanged && placed.widthMm > 0 && placed.heightMm > 0) {
+      this.adaptImageToPlaceholder(placeholder, placed.widthMm, placed.heightMm, placed.bleedMm);
+    }
+  }
+
+  /**
+   * All placeholders of all pages in document order
+   */
+  get placeholders(): PlaceholderState[] {
+    return this.pages.flatMap(page => page.placeholders);
+  }
+
+  private createPage(): SheetPage {
+    return {
+      id: this.nextPageId++,
+      placeholders: this.createPlaceholders(this.slotsForPage(this.pages.length))
+    };
+  }
+
+  // A cover mix arranges every page differently, otherwise all pages share the grid
+  private slotsForPage(pageIndex: number): SheetSlot[] {
+    return this.mixedPageSlots ? this.mixedPageSlots[pageIndex] ?? [] : this.gridSlots;
+  }
+
+  /**
+   * Give every page fresh placeholders for the current layout
+   */
+  private rebuildPages(): void {
+    if (this.mixedPageSlots) {
+      const pageCount = this.mixedPageSlots.length;
+      while (this.pages.length < pageCount) {
+        this.pages.push(this.createPage());
+      }
+      this.pages = this.pages.slice(0, pageCount);
+    }
+
+    this.pages.forEach((page, index) => page.placeholders = this.createPlaceholders(this.slotsForPage(index)));
+  }
+
+  private createPlaceholders(slots: SheetSlot[]): PlaceholderState[] {
+    return slots.map(slot => ({
+      id: this.nextPlaceholderId++,
+      ...createEmptyImage(),
+      ...slot,
+      isDragOver: false
+    }));
+  }
+
+  /**
+   * Append an empty page using the current grid
+   */
+  addPage(): void {
+    // The cover mix decides the number of pages
+    if (this.mixedPageSlots) {
+      return;
+    }
+
+    this.pages.push(this.createPage());
+    this.documentChanged();
+  }
+
+  /**
+   * Remove a page, asking for confirmation if it still holds pictures.
+   * The document always keeps at least one page.
+   */
+  removePage(page: SheetPage): void {
+    if (this.pages.length <= 1 || this.mixedPageSlots) {
+      return;
+    }
+
+    const hasImages = page.placeholders.some(placeholder => placeholder.imageData);
+    if (hasImages && !confirm('This page contains pictures. Remove it anyway?')) {
+      return;
+    }
+
+    this.pages = this.pages.filter(p => p !== page);
+    this.documentChanged();
+  }
+
+  /**
+   * Move a page up (-1) or down (+1) in the document order.
+   * Pages of a cover mix keep their order, every page has its own slot layout.
+   */
+  movePage(page: SheetPage, direction: -1 | 1): void {
+    const index = this.pages.indexOf(page);
+    const targetIndex = index + direction;
+    if (index < 0 || targetIndex < 0 || targetIndex >= this.pages.length || this.mixedPageSlots) {
+      return;
+    }
+
+    const reordered = [...this.pages];
+    reordered[index] = reordered[targetIndex];
+    reordered[targetIndex] = page;
+    this.pages = reordered;
+    this.documentChanged();
+  }
+
+  updatePrintStyles() {
+    // Remove existing dynamic print styles
+    const existingStyle = document.getElementById('dynamic-print-styles');
+    if (existingStyle) {
+      existingStyle.remove();
+    }
+
+    // A calibrated printer gets every sheet scaled and shifted against its own distortion
+    const correction = calibrationCorrection(this.activeCalibration);
+    const paperTransform = isCalibrated(this.activeCalibration)
+      ? `transform-origin: 0 0 !important;
+          transform: translate(${correction.translateXMm}mm, ${correction.translateYMm}mm) scale(${correction.scaleX}, ${correction.scaleY}) !important;`
+      : '';
+
+    // Every page is exactly one sheet; containers grow with the number of pages
+    const style = document.createElement('style');
+    style.id = 'dynamic-print-styles';
+    style.innerHTML = `
+      @media print {
+        @page {
+          size: ${this.selectedPaperSize.width}cm ${this.selectedPaperSize.height}cm;
+          margin: 0;
+        }
+
+        html {
+          width: ${this.selectedPaperSize.width}cm;
+        }
+
+        body {
+          background: white !important;
+          margin: 0 !important;
+          padding: 0 !important;
+          width: ${this.selectedPaperSize.width}cm !important;
+          position: relative !important;
         }
 
         .app-container {
           background: white;
-          height: ${this.selectedPaperSize.height}cm !important;
           width: ${this.selectedPaperSize.width}cm !important;
-          overflow: hidden !important;
+          min-height: 0 !important;
           margin: 0 !important;
           padding: 0 !important;
         }
@@ -284,9 +1102,7 @@ export class AppComponent {
           padding: 0 !important;
           margin: 0 !important;
           display: block !important;
-          height: ${this.selectedPaperSize.height}cm !important;
           width: ${this.selectedPaperSize.width}cm !important;
-          overflow: hidden !important;
           position: absolute !important;
           top: 0 !important;
           left: 0 !important;
@@ -297,25 +1113,24 @@ export class AppComponent {
           margin: 0 !important;
           box-shadow: none !important;
           border-radius: 0 !important;
-          height: ${this.selectedPaperSize.height}cm !important;
           width: ${this.selectedPaperSize.width}cm !important;
-          overflow: hidden !important;
+          min-height: 0 !important;
           display: block !important;
-          position: absolute !important;
-          top: 0 !important;
-          left: 0 !important;
+          position: static !important;
         }
 
         .preview-container {
           padding: 0 !important;
           margin: 0 !important;
-          height: ${this.selectedPaperSize.height}cm !important;
           width: ${this.selectedPaperSize.width}cm !important;
-          overflow: hidden !important;
           display: block !important;
-          position: absolute !important;
-          top: 0 !important;
-          left: 0 !important;
+          position: static !important;
+        }
+
+        .page {
+          margin: 0 !important;
+          padding: 0 !important;
+          display: block !important;
         }
 
         .paper {
@@ -326,6 +1141,24 @@ export class AppComponent {
           height: ${this.selectedPaperSize.height}cm !important;
           width: ${this.selectedPaperSize.width}cm !important;
           overflow: hidden !important;
+          break-after: page;
+          page-break-after: always;
+          ${paperTransform}
+        }
+
+        .printing-calibration .preview-container,
+        .printing-registration .preview-container {
+          display: none !important;
+        }
+
+        .page.print-skip {
+          display: none !important;
+        }
+
+        .page:last-of-type .paper,
+        .page.last-printed .paper {
+          break-after: auto;
+          page-break-after: auto;
         }
       }
     `;
@@ -334,337 +1167,1514 @@ export class AppComponent {
     document.head.appendChild(style);
   }
 
-  // Drag and drop event handlers
-  onDragOver(event: DragEvent, placeholder: PlaceholderState) {
+  // Drag and drop event handlers
+  onDragOver(event: DragEvent, placeholder: PlaceholderState) {
+    event.preventDefault();
+    event.stopPropagation();
+    placeholder.isDragOver = true;
+  }
+
+  onDragLeave(event: DragEvent, placeholder: PlaceholderState) {
+    event.preventDefault();
+    event.stopPropagation();
+    placeholder.isDragOver = false;
+  }
+
+  onDrop(event: DragEvent, placeholder: PlaceholderState) {
+    event.preventDefault();
+    event.stopPropagation();
+    placeholder.isDragOver = false;
+
+    const trayId = event.dataTransfer?.getData(TRAY_DRAG_TYPE);
+    if (trayId) {
+      this.placeFromTray(Number(trayId), placeholder);
+      return;
+    }
+
+    const sourceId = event.dataTransfer?.getData(PLACEHOLDER_DRAG_TYPE);
+    if (sourceId) {
+      this.swapImages(Number(sourceId), placeholder);
+      return;
+    }
+
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    if (files.length === 1 && this.projectFileService.isProjectFile(files[0])) {
+      this.openProject(files[0]);
+    } else if (files.length > 0) {
+      // The first picture replaces this placeholder, the others fill the empty ones after it
+      this.importFiles(files, placeholder);
+    }
+  }
+
+  loadImage(file: File, placeholder: PlaceholderState, contentName: string | null = null) {
+    readImageFile(file)
+      .then(async image => {
+        this.setImage(placeholder, image, contentName);
+        await this.frameNewImage(placeholder);
+        this.documentChanged();
+      })
+      .catch(error => console.warn('Failed to load image:', error));
+  }
+
+  /**
+   * Show a new picture in a placeholder, fitted to the whole image.
+   * The caption and back side stay, the content name is that of the new picture.
+   */
+  private setImage(placeholder: PlaceholderState, image: LoadedImage, contentName: string | null = null): void {
+    placeholder.imageData = image.imageData;
+    placeholder.contentName = contentName;
+    placeholder.imageWidth = image.imageWidth;
+    placeholder.imageHeight = image.imageHeight;
+    placeholder.rotation = 0;
+    placeholder.flipHorizontal = false;
+    placeholder.flipVertical = false;
+    placeholder.adjustments = { ...DEFAULT_ADJUSTMENTS };
+
+    // Reset to fit the entire image
+    this.fitImageToPlaceholder(placeholder);
+  }
+
+  // New pictures start centred, or around their subject when smart framing is on
+  private async frameNewImage(placeholder: PlaceholderState): Promise<void> {
+    if (this.smartFraming) {
+      await this.smartFrameImage(placeholder);
+    }
+  }
+
+  /**
+   * Import many pictures at once.
+   * They fill the empty placeholders in order, starting with the given placeholder if any;
+   * the rest go onto new pages or into the holding tray. Files that aren't pictures are listed with a reason.
+   * Files arriving while an import runs are imported after it, adding to its result.
+   */
+  async importFiles(files: File[], start: PlaceholderState | null = null): Promise<void> {
+    let previous: PlaceholderState | null = null;
+    const placed = await this.importService.importFiles(files, this.importSortByName, {
+      place: async image => {
+        const target = !previous && start ? start : this.takeEmptyAfter(previous, this.importOverflow === 'pages');
+        if (!target) {
+          return false;
+        }
+
+        this.setImage(target, image);
+        await this.frameNewImage(target);
+        previous = target;
+        return true;
+      },
+      pageCount: () => this.pages.length
+    });
+
+    if (placed > 0) {
+      this.documentChanged();
+    }
+  }
+
+  get isImporting(): boolean {
+    return this.importService.isImporting;
+  }
+
+  get importMessage(): string {
+    return this.importService.message;
+  }
+
+  get importRejected(): RejectedFile[] {
+    return this.importService.rejected;
+  }
+
+  dismissRejectedImports(): void {
+    this.importService.rejected = [];
+  }
+
+  get holdingTray(): TrayImage[] {
+    return this.importService.tray;
+  }
+
+  // Clicking an empty placeholder opens the file picker for it
+  onPlaceholderClick(placeholder: PlaceholderState): void {
+    this.selectPlaceholder(placeholder);
+    if (!placeholder.imageData) {
+      this.browseForImages(placeholder);
+    }
+  }
+
+  /**
+   * Pick pictures for a placeholder; further pictures fill the empty placeholders after it
+   */
+  browseForImages(placeholder: PlaceholderState): void {
+    this.browseTarget = placeholder;
+    this.placeholderFileInput()?.nativeElement.click();
+  }
+
+  onPlaceholderFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    // Allow selecting the same files again
+    input.value = '';
+
+    // The layout may have been recalculated while the picker was open
+    const target = this.browseTarget && this.placeholders.includes(this.browseTarget) ? this.browseTarget : null;
+    this.browseTarget = null;
+    if (files.length > 0) {
+      this.importFiles(files, target);
+    }
+  }
+
+  /**
+   * Paste pictures into the selected placeholder, or the next empty one.
+   * A copied picture address is loaded like one entered under Import; text fields keep their own paste.
+   */
+  private onPaste(event: ClipboardEvent): void {
+    if (this.isTextField(event.target) || !event.clipboardData) {
+      return;
+    }
+
+    const files = Array.from(event.clipboardData.files);
+    const text = event.clipboardData.getData('text/plain').trim();
+    if (files.length > 0) {
+      event.preventDefault();
+      this.importFiles(files, this.selectedPlaceholder);
+    } else if (/^https?:\/\/\S+$/i.test(text)) {
+      event.preventDefault();
+      this.loadImageFromUrl(text);
+    }
+  }
+
+  /**
+   * Download a picture and import it like a dropped file
+   */
+  async loadImageFromUrl(address: string): Promise<void> {
+    if (this.isLoadingUrl) {
+      return;
+    }
+
+    this.isLoadingUrl = true;
+    this.urlImportError = '';
+    try {
+      const file = await fetchImageFile(address);
+      const problem = findImportProblem(file);
+      if (problem) {
+        this.urlImportError = `${file.name}: ${problem}`;
+        return;
+      }
+      await this.importFiles([file], this.selectedPlaceholder);
+    } catch (error) {
+      console.warn('Failed to load image from URL:', error);
+      this.urlImportError = error instanceof Error ? error.message : 'The picture could not be loaded.';
+    } finally {
+      this.isLoadingUrl = false;
+    }
+  }
+
+  // The first empty placeholder after the given one in document order (from the start for null)
+  private findEmptyAfter(previous: PlaceholderState | null): PlaceholderState | null {
+    const placeholders = this.placeholders;
+    const index = previous ? placeholders.indexOf(previous) : -1;
+    return placeholders.slice(index + 1).find(placeholder => !placeholder.imageData) ?? null;
+  }
+
+  // Like findEmptyAfter(), appending a page when the document is full and pages may be added
+  private takeEmptyAfter(previous: PlaceholderState | null, addPages: boolean): PlaceholderState | null {
+    const empty = this.findEmptyAfter(previous);
+    if (empty || !addPages || !this.canAddPages) {
+      return empty;
+    }
+
+    this.pages.push(this.createPage());
+    return this.findEmptyAfter(previous);
+  }
+
+  // Mixed cover sizes have a fixed number of pages, and a broken layout has no placeholders
+  get canAddPages(): boolean {
+    return !this.hasLayoutError && !this.mixedPageSlots;
+  }
+
+  onImportFilesSelected(files: File[]) {
+    this.importFiles(files);
+  }
+
+  onImportOptionsChange(options: ImportOptions) {
+    this.importSortByName = options.sortByName;
+    this.importOverflow = options.overflow;
+    this.saveSettings();
+  }
+
+  private async placeFromTray(id: number, placeholder: PlaceholderState): Promise<void> {
+    const image = this.importService.takeFromTray(id);
+    if (!image) {
+      return;
+    }
+
+    this.setImage(placeholder, image);
+    await this.frameNewImage(placeholder);
+    this.documentChanged();
+  }
+
+  /**
+   * Move tray pictures into the empty placeholders in order; the rest stays in the tray
+   */
+  async fillEmptyFromTray(): Promise<void> {
+    const empty = this.placeholders.filter(placeholder => !placeholder.imageData);
+    const count = Math.min(empty.length, this.holdingTray.length);
+    if (count === 0) {
+      return;
+    }
+
+    const filled = empty.slice(0, count);
+    this.importService.takeFirstFromTray(count).forEach((image, index) => this.setImage(filled[index], image));
+    await Promise.all(filled.map(placeholder => this.frameNewImage(placeholder)));
+    this.documentChanged();
+  }
+
+  removeFromTray(id: number): void {
+    this.importService.removeFromTray(id);
+    this.releaseImages();
+  }
+
+  clearHoldingTray(): void {
+    this.importService.clearTray();
+    this.releaseImages();
+  }
+
+  get hasEmptyPlaceholder(): boolean {
+    return this.placeholders.some(placeholder => !placeholder.imageData);
+  }
+
+  private fitImageToPlaceholder(placeholder: PlaceholderState) {
+    if (!placeholder.imageWidth || !placeholder.imageHeight) {
+      return;
+    }
+
+    // The placeholder element uses mm units, which the browser converts to CSS pixels (not 300 DPI pixels!)
+    Object.assign(placeholder, fitImageToPlaceholder(placeholder, this.getPlaceholderSizePx(placeholder), this.allowWhitespace));
+  }
+
+  /**
+   * Fit an image like fitImageToPlaceholder(), then move its subject into the middle.
+   * The subject is found locally from detail, colour and skin tones; with whitespace allowed
+   * the whole image is visible anyway and stays centred.
+   */
+  private async smartFrameImage(placeholder: PlaceholderState): Promise<void> {
+    this.fitImageToPlaceholder(placeholder);
+    const imageData = placeholder.imageData;
+    if (this.allowWhitespace || !imageData) {
+      return;
+    }
+
+    // The visible part of the image, measured along the image's own axes
+    const { width, height } = this.getPlaceholderSizePx(placeholder);
+    const { cos, sin } = getRotation(placeholder);
+    const cropAspect = (width * cos + height * sin) / (width * sin + height * cos);
+    const framing = { offsetX: placeholder.offsetX, offsetY: placeholder.offsetY, scale: placeholder.scale };
+
+    let focus;
+    try {
+      // Loaded with the first picture that is framed around its subject
+      const { measureCropFocus } = await import('./utils/smart-crop');
+      focus = await measureCropFocus(getPreviewUrl(imageData), cropAspect);
+    } catch (error) {
+      console.warn('Failed to find the subject:', error);
+      return;
+    }
+
+    // The picture may have been changed or moved in the meantime
+    if (placeholder.imageData !== imageData || placeholder.offsetX !== framing.offsetX ||
+      placeholder.offsetY !== framing.offsetY || placeholder.scale !== framing.scale) {
+      return;
+    }
+
+    // Distance of the subject from the image centre, flipped and rotated like getImageTransform()
+    const distanceX = (focus.x - 0.5) * placeholder.imageWidth * placeholder.scale * (placeholder.flipHorizontal ? -1 : 1);
+    const distanceY = (focus.y - 0.5) * placeholder.imageHeight * placeholder.scale * (placeholder.flipVertical ? -1 : 1);
+    const angle = (placeholder.rotation || 0) * Math.PI / 180;
+
+    this.setImageCenter(
+      placeholder,
+      width / 2 - (distanceX * Math.cos(angle) - distanceY * Math.sin(angle)),
+      height / 2 - (distanceX * Math.sin(angle) + distanceY * Math.cos(angle))
+    );
+    Object.assign(placeholder, this.constrainOffset(placeholder, placeholder.offsetX, placeholder.offsetY));
+  }
+
+  /**
+   * Reset the framing of a picture: fitted and centred, or fitted around its subject
+   */
+  async reframeImage(placeholder: PlaceholderState, smart: boolean): Promise<void> {
+    if (!placeholder.imageData || !placeholder.imageWidth || !placeholder.imageHeight) {
+      return;
+    }
+
+    if (smart) {
+      await this.smartFrameImage(placeholder);
+    } else {
+      this.fitImageToPlaceholder(placeholder);
+    }
+    this.documentChanged();
+  }
+
+  /**
+   * Keep the framing of an image when its placeholder changes size:
+   * the image point in the centre stays centred and the zoom follows the cut area.
+   * A changed bleed alone keeps the image in place and only shows more or less around the cut line.
+   */
+  private adaptImageToPlaceholder(
+    placeholder: PlaceholderState,
+    previousWidthMm: number,
+    previousHeightMm: number,
+    previousBleedMm: number
+  ) {
+    if (!placeholder.imageWidth || !placeholder.imageHeight) {
+      return;
+    }
+
+    const previousWidthPx = previousWidthMm * CSS_PX_PER_MM;
+    const previousHeightPx = previousHeightMm * CSS_PX_PER_MM;
+    const { width: placeholderWidthPx, height: placeholderHeightPx } = this.getPlaceholderSizePx(placeholder);
+
+    const previousBleedPx = previousBleedMm * CSS_PX_PER_MM;
+    const bleedPx = this.gridBleedMm * CSS_PX_PER_MM;
+
+    // Distance from the placeholder centre to the image centre, which scales with the zoom
+    const center = this.getImageCenter(placeholder);
+    const distanceX = center.x - previousWidthPx / 2;
+    const distanceY = center.y - previousHeightPx / 2;
+
+    let scale = placeholder.scale * Math.min(
+      (placeholderWidthPx - 2 * bleedPx) / (previousWidthPx - 2 * previousBleedPx),
+      (placeholderHeightPx - 2 * bleedPx) / (previousHeightPx - 2 * previousBleedPx)
+    );
+    if (!this.allowWhitespace) {
+      scale = Math.max(scale, this.calculateMinimumScale(placeholder));
+    }
+
+    const factor = scale / placeholder.scale;
+    placeholder.scale = scale;
+    this.setImageCenter(placeholder, placeholderWidthPx / 2 + distanceX * factor, placeholderHeightPx / 2 + distanceY * factor);
+
+    if (!this.allowWhitespace) {
+      Object.assign(placeholder, this.constrainOffset(placeholder, placeholder.offsetX, placeholder.offsetY));
+    }
+  }
+
+  clearImage(event: Event, placeholder: PlaceholderState) {
+    event.stopPropagation();
+    Object.assign(placeholder, createEmptyImage());
+    this.documentChanged();
+    this.releaseImages();
+  }
+
+  /**
+   * URL a cover picture is shown with: the screen-resolution preview while editing, the file itself for printing
+   */
+  getDisplayUrl(imageData: string): string {
+    return this.printingFullResolution ? imageData : getPreviewUrl(imageData);
+  }
+
+  /**
+   * Release the files and previews of pictures that neither the document, the holding tray,
+   * the copied crop nor an undo step refers to anymore
+   */
+  private releaseImages(): void {
+    const inUse = new Set<string>();
+    const addImage = (image: PlaceholderImage | null) => {
+      [image?.imageData, image?.back?.imageData].forEach(imageData => imageData && inUse.add(imageData));
+    };
+    const addLayout = (layout: ImageLayout | null | undefined) => layout?.images.forEach(entry => addImage(entry.image));
+
+    addLayout(this.captureLayout());
+    addLayout(this.pendingLayout);
+    this.documentHistory.states.forEach(state => addLayout(state.layout));
+    this.holdingTray.forEach(image => inUse.add(image.imageData));
+    addImage(this.copiedCover?.image ?? null);
+
+    releaseUnusedImages(inUse);
+  }
+
+  /**
+   * Fill the next empty placeholders with identical copies of the selected cover,
+   * so there are `quantity` covers in total. Pages are added when the document is full.
+   */
+  makeCopies(quantity: number): void {
+    const source = this.selectedCover;
+    if (!source) {
+      return;
+    }
+
+    const copy = this.captureImage(source);
+    let previous = source;
+    let made = 0;
+    for (; made < quantity - 1; made++) {
+      const target = this.takeEmptyAfter(previous, true);
+      if (!target) {
+        break;
+      }
+      this.placeImage(target, copy);
+      previous = target;
+    }
+
+    const missing = quantity - 1 - made;
+    this.copiesMessage = missing > 0
+      ? `Made ${made} ${made === 1 ? 'copy' : 'copies'}; there is no empty placeholder for ${missing} more.`
+      : `Made ${made} ${made === 1 ? 'copy' : 'copies'}.`;
+    if (made > 0) {
+      this.documentChanged();
+    }
+  }
+
+  copyCrop(): void {
+    const source = this.selectedCover;
+    if (source) {
+      this.copiedCover = this.captureImage(source);
+      this.copiesMessage = 'Crop copied. Paste it into another cover or an empty placeholder.';
+    }
+  }
+
+  get canPasteCrop(): boolean {
+    return this.copiedCover !== null;
+  }
+
+  /**
+   * Replace the picture of a placeholder with the copied crop
+   */
+  pasteCrop(placeholder: PlaceholderState | null, event?: Event): void {
+    event?.stopPropagation();
+    if (!placeholder || !this.copiedCover) {
+      return;
+    }
+
+    this.placeImage(placeholder, this.copiedCover);
+    this.selectedPlaceholderId = placeholder.id;
+    this.copiesMessage = '';
+    this.documentChanged();
+  }
+
+  onPlaceholderDragStart(event: DragEvent, placeholder: PlaceholderState) {
+    event.stopPropagation();
+    event.dataTransfer?.setData(PLACEHOLDER_DRAG_TYPE, String(placeholder.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  /**
+   * Exchange the pictures of two placeholders, or move a picture onto an empty one.
+   * Both pictures keep their framing.
+   */
+  private swapImages(sourceId: number, target: PlaceholderState): void {
+    const source = this.placeholders.find(placeholder => placeholder.id === sourceId);
+    if (!source || source === target || !source.imageData) {
+      return;
+    }
+
+    const moving = this.captureImage(source);
+    const staying = target.imageData ? this.captureImage(target) : null;
+    this.placeImage(target, moving);
+    if (staying) {
+      this.placeImage(source, staying);
+    } else {
+      Object.assign(source, createEmptyImage());
+    }
+
+    this.selectedPlaceholderId = target.id;
+    this.documentChanged();
+  }
+
+  resetImage(event: Event, placeholder: PlaceholderState) {
+    event.stopPropagation();
+
+    // Use the same framing as when loading an image
+    this.reframeImage(placeholder, this.smartFraming);
+  }
+
+  selectPlaceholder(placeholder: PlaceholderState) {
+    if (placeholder.id !== this.selectedPlaceholderId) {
+      this.copiesMessage = '';
+    }
+    this.selectedPlaceholderId = placeholder.id;
+  }
+
+  get pictureCount(): number {
+    return this.placeholders.filter(placeholder => placeholder.imageData).length;
+  }
+
+  get selectedPlaceholder(): PlaceholderState | null {
+    return this.placeholders.find(placeholder => placeholder.id === this.selectedPlaceholderId) ?? null;
+  }
+
+  // Selected placeholder if it holds a picture that can be edited
+  get selectedCover(): PlaceholderState | null {
+    const placeholder = this.selectedPlaceholder;
+    return placeholder?.imageData ? placeholder : null;
+  }
+
+  onCaptionChange(caption: CoverCaption | null) {
+    const placeholder = this.selectedPlaceholder;
+    if (placeholder) {
+      placeholder.caption = caption;
+      this.documentChanged(`caption:${placeholder.id}`);
+    }
+  }
+
+  onCodeChange(code: CoverCode | null) {
+    const placeholder = this.selectedPlaceholder;
+    if (placeholder) {
+      placeholder.code = code;
+      this.documentChanged(`code:${placeholder.id}`);
+    }
+  }
+
+  // Text a text back shows when no custom text is entered
+  getGeneratedBackText(placeholder: PlaceholderState): string {
+    return resolveBackText({ ...(placeholder.back as CoverBack), text: '' }, placeholder.caption?.title ?? '', placeholder.contentName);
+  }
+
+  onBackChange(back: CoverBack | null) {
+    const placeholder = this.selectedPlaceholder;
+    if (placeholder) {
+      placeholder.back = back;
+      this.backMessage = '';
+      this.documentChanged(`back:${placeholder.id}`);
+    }
+  }
+
+  async onBackImageSelected(file: File): Promise<void> {
+    const placeholder = this.selectedPlaceholder;
+    if (!placeholder?.back) {
+      return;
+    }
+
+    const problem = findImportProblem(file);
+    if (problem) {
+      this.backMessage = `${file.name}: ${problem}`;
+      return;
+    }
+
+    try {
+      const image = await readImageFile(file);
+      placeholder.back = { ...placeholder.back, kind: 'image', ...image };
+      this.backMessage = '';
+      this.documentChanged();
+    } catch (error) {
+      console.warn('Failed to load back image:', error);
+      this.backMessage = `${file.name} could not be read as a picture.`;
+    }
+  }
+
+  /**
+   * Give every cover with a picture a copy of the selected cover's back.
+   * Text backs without custom text still show each cover's own title.
+   */
+  applyBackToAll(): void {
+    const back = this.selectedPlaceholder?.back;
+    if (!back) {
+      return;
+    }
+
+    const covers = this.placeholders.filter(placeholder => placeholder.imageData);
+    covers.forEach(placeholder => placeholder.back = { ...back });
+    this.backMessage = `Applied to ${covers.length} covers.`;
+    this.documentChanged();
+  }
+
+  // Image positioning with mouse, touch and pen
+  onImagePointerDown(event: PointerEvent, placeholder: PlaceholderState) {
+    // Only start dragging if there's an image
+    if (!placeholder.imageData || (event.pointerType === 'mouse' && event.button !== 0)) {
+      return;
+    }
+
+    // Further fingers only join the gesture on the same picture
+    if (this.dragState.active && this.dragState.placeholderId !== placeholder.id) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const element = event.currentTarget as HTMLElement;
+    this.activePointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    this.startGesture(placeholder, element);
+    placeholder.isDraggingImage = true;
+
+    // preventDefault() keeps the focus away, but the keyboard should control the picture just touched
+    element.closest<HTMLElement>('.placeholder')?.focus({ preventScroll: true });
+  }
+
+  /**
+   * (Re)start a drag or pinch from the current pointers, e.g. when a second finger touches down
+   */
+  private startGesture(placeholder: PlaceholderState, element: HTMLElement) {
+    const { x, y, distance } = this.measurePointers();
+    this.dragState = {
+      active: true,
+      placeholderId: placeholder.id,
+      element,
+      startX: x,
+      startY: y,
+      lastX: x,
+      lastY: y,
+      startOffsetX: placeholder.offsetX,
+      startOffsetY: placeholder.offsetY,
+      startDistance: distance,
+      startScale: placeholder.scale
+    };
+  }
+
+  // Midpoint of the first two pointers and their distance (0 for a single pointer)
+  private measurePointers(): { x: number; y: number; distance: number } {
+    const points = Array.from(this.activePointers.values()).slice(0, 2);
+    const x = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+    const y = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    const distance = points.length === 2 ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) : 0;
+    return { x, y, distance };
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    if (!this.dragState.active || !this.activePointers.has(event.pointerId)) {
+      return;
+    }
+    this.activePointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    // Find the placeholder being dragged
+    const placeholder = this.placeholders.find(p => p.id === this.dragState.placeholderId);
+    if (!placeholder) {
+      return;
+    }
+
+    const { x, y, distance } = this.measurePointers();
+    const { element, startDistance } = this.dragState;
+
+    if (distance > 0 && startDistance > 0 && element) {
+      // Pinch: zoom around the midpoint of the fingers and follow its movement
+      const rect = element.getBoundingClientRect();
+      this.zoomImageAt(placeholder, this.dragState.startScale * distance / startDistance, x - rect.left, y - rect.top);
+      this.moveImageTo(placeholder, placeholder.offsetX + x - this.dragState.lastX, placeholder.offsetY + y - this.dragState.lastY);
+    } else {
+      this.moveImageTo(
+        placeholder,
+        this.dragState.startOffsetX + x - this.dragState.startX,
+        this.dragState.startOffsetY + y - this.dragState.startY
+      );
+    }
+
+    this.dragState.lastX = x;
+    this.dragState.lastY = y;
+  }
+
+  /**
+   * Move a picture to a new position, clamped so the placeholder stays covered unless whitespace is allowed
+   */
+  private moveImageTo(placeholder: PlaceholderState, offsetX: number, offsetY: number) {
+    const offset = this.allowWhitespace ? { offsetX, offsetY } : this.constrainOffset(placeholder, offsetX, offsetY);
+    placeholder.offsetX = offset.offsetX;
+    placeholder.offsetY = offset.offsetY;
+  }
+
+  /**
+   * Zoom a picture while the given point (CSS pixels in the image area) stays in place.
+   * Without whitespace the scale never drops below the minimum and the position is clamped.
+   */
+  private zoomImageAt(placeholder: PlaceholderState, scale: number, pointX: number, pointY: number) {
+    if (!this.allowWhitespace) {
+      scale = Math.max(this.calculateMinimumScale(placeholder), scale);
+    }
+
+    // Scale the image centre away from the point to keep it stationary.
+    // Rotation and flips turn around the centre, so this holds for transformed images as well.
+    const center = this.getImageCenter(placeholder);
+    const factor = scale / placeholder.scale;
+
+    // Update scale first so setImageCenter and constrainOffset can use it
+    placeholder.scale = scale;
+    this.setImageCenter(placeholder, pointX + (center.x - pointX) * factor, pointY + (center.y - pointY) * factor);
+
+    if (!this.allowWhitespace) {
+      Object.assign(placeholder, this.constrainOffset(placeholder, placeholder.offsetX, placeholder.offsetY));
+    }
+  }
+
+  /**
+   * Keyboard control of the focused placeholder: arrows move, Shift+arrows move further,
+   * + and - zoom around the centre, 0 resets the framing
+   */
+  onPlaceholderKeyDown(event: KeyboardEvent, placeholder: PlaceholderState) {
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+
+    // Empty placeholders open the file picker, like a click
+    if (!placeholder.imageData) {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        this.browseForImages(placeholder);
+      }
+      return;
+    }
+
+    const step = event.shiftKey ? this.NUDGE_STEP_LARGE_PX : this.NUDGE_STEP_PX;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+    const { width, height } = this.getPlaceholderSizePx(placeholder);
+
+    if (moves[event.key]) {
+      const [dx, dy] = moves[event.key];
+      this.moveImageTo(placeholder, placeholder.offsetX + dx, placeholder.offsetY + dy);
+      this.documentChanged(`nudge:${placeholder.id}`);
+    } else if (event.key === '+' || event.key === '=') {
+      this.zoomImageAt(placeholder, placeholder.scale * this.ZOOM_STEP, width / 2, height / 2);
+      this.documentChanged(`zoom:${placeholder.id}`);
+    } else if (event.key === '-' || event.key === '_') {
+      this.zoomImageAt(placeholder, placeholder.scale / this.ZOOM_STEP, width / 2, height / 2);
+      this.documentChanged(`zoom:${placeholder.id}`);
+    } else if (event.key === '0') {
+      this.fitImageToPlaceholder(placeholder);
+      this.documentChanged();
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  /**
+   * Clamp an image position so the placeholder stays fully covered
+   */
+  private constrainOffset(placeholder: PlaceholderState, offsetX: number, offsetY: number): { offsetX: number; offsetY: number } {
+    return constrainOffset(placeholder, this.getPlaceholderSizePx(placeholder), offsetX, offsetY);
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    if (!this.activePointers.delete(event.pointerId) || !this.dragState.active) {
+      return;
+    }
+
+    const placeholder = this.placeholders.find(p => p.id === this.dragState.placeholderId);
+
+    // Lifting one finger of a pinch continues as a drag with the other one
+    if (this.activePointers.size > 0 && placeholder && this.dragState.element) {
+      this.startGesture(placeholder, this.dragState.element);
+      return;
+    }
+
+    if (placeholder) {
+      placeholder.isDraggingImage = false;
+    }
+    this.activePointers.clear();
+    this.dragState = this.createIdleDragState();
+
+    // The whole drag is one undo step
+    this.documentChanged();
+  }
+
+  private createIdleDragState(): DragState {
+    return {
+      active: false,
+      placeholderId: null,
+      element: null,
+      startX: 0,
+      startY: 0,
+      lastX: 0,
+      lastY: 0,
+      startOffsetX: 0,
+      startOffsetY: 0,
+      startDistance: 0,
+      startScale: 1
+    };
+  }
+
+  // Mouse wheel and trackpad zoom handler
+  onWheel(event: WheelEvent, placeholder: PlaceholderState) {
+    // Only zoom if there's an image
+    if (!placeholder.imageData) {
+      return;
+    }
+
     event.preventDefault();
     event.stopPropagation();
-    placeholder.isDragOver = true;
+
+    // Get the placeholder element to calculate mouse position relative to it
+    const target = event.currentTarget as HTMLElement;
+    const rect = target.getBoundingClientRect();
+
+    // Trackpad pinches arrive as wheel events with the Ctrl key and small, continuous deltas;
+    // a mouse wheel tick zooms by a fixed step
+    const zoomFactor = event.ctrlKey
+      ? Math.exp(-event.deltaY * 0.01)
+      : event.deltaY < 0 ? this.ZOOM_STEP : 1 / this.ZOOM_STEP;
+
+    this.zoomImageAt(placeholder, placeholder.scale * zoomFactor, event.clientX - rect.left, event.clientY - rect.top);
+
+    // A burst of wheel ticks is one step
+    this.documentChanged(`zoom:${placeholder.id}`);
   }
 
-  onDragLeave(event: DragEvent, placeholder: PlaceholderState) {
-    event.preventDefault();
-    event.stopPropagation();
-    placeholder.isDragOver = false;
+  private calculateMinimumScale(placeholder: PlaceholderState): number {
+    return calculateMinimumScale(placeholder, this.getPlaceholderSizePx(placeholder));
   }
 
-  onDrop(event: DragEvent, placeholder: PlaceholderState) {
-    event.preventDefault();
-    event.stopPropagation();
-    placeholder.isDragOver = false;
+  /**
+   * Rotate or mirror the picture of a placeholder. The image centre stays in place.
+   */
+  onImageTransformChange(placeholder: PlaceholderState, transform: ImageTransform) {
+    const center = this.getImageCenter(placeholder);
+
+    placeholder.rotation = transform.rotation;
+    placeholder.flipHorizontal = transform.flipHorizontal;
+    placeholder.flipVertical = transform.flipVertical;
+
+    if (!this.allowWhitespace) {
+      placeholder.scale = Math.max(placeholder.scale, this.calculateMinimumScale(placeholder));
+    }
+    this.setImageCenter(placeholder, center.x, center.y);
+
+    if (!this.allowWhitespace) {
+      Object.assign(placeholder, this.constrainOffset(placeholder, placeholder.offsetX, placeholder.offsetY));
+    }
+    this.documentChanged(`transform:${placeholder.id}`);
+  }
+
+  /**
+   * Change the adjustments of a picture; auto levels are measured from the original image when switched on
+   */
+  async onImageAdjustmentsChange(placeholder: PlaceholderState, adjustments: ImageAdjustments) {
+    placeholder.adjustments = adjustments;
+    await this.updateAutoLevels(placeholder);
+    this.documentChanged(`adjustments:${placeholder.id}`);
+  }
+
+  /**
+   * Use the adjustments of one picture for every other picture of the document
+   */
+  async copyAdjustmentsToAll(source: PlaceholderState) {
+    const targets = this.placeholders.filter(placeholder => placeholder !== source && placeholder.imageData);
+    targets.forEach(placeholder => {
+      // Levels belong to the source image, each picture measures its own
+      placeholder.adjustments = { ...copyAdjustments(source.adjustments), levels: null };
+    });
+    await Promise.all(targets.map(placeholder => this.updateAutoLevels(placeholder)));
+    this.documentChanged();
+  }
 
-    const files = event.dataTransfer?.files;
-    if (files && files.length > 0) {
-      const file = files[0];
+  private async updateAutoLevels(placeholder: PlaceholderState) {
+    const adjustments = placeholder.adjustments;
+    if (!adjustments.autoLevels || adjustments.levels || !placeholder.imageData) {
+      return;
+    }
 
-      // Check if file is an image
-      if (file.type.startsWith('image/')) {
-        this.loadImage(file, placeholder);
+    try {
+      const levels = await measureAutoLevels(getPreviewUrl(placeholder.imageData));
+      // The picture may have changed in the meantime
+      if (placeholder.adjustments === adjustments) {
+        placeholder.adjustments = { ...adjustments, levels };
       }
+    } catch (error) {
+      console.warn('Failed to measure auto levels:', error);
     }
   }
 
-  loadImage(file: File, placeholder: PlaceholderState) {
-    const reader = new FileReader();
+  /**
+   * CSS filter of a placeholder image, the auto levels filter is defined next to the image
+   */
+  getImageFilter(placeholder: PlaceholderState): string {
+    const filter = buildFilter(placeholder.adjustments);
+    const levels = placeholder.adjustments.autoLevels && placeholder.adjustments.levels
+      ? `url(#levels-${placeholder.id})`
+      : '';
+    return [levels, filter].filter(part => part).join(' ');
+  }
+
+  getLevelTransfer(placeholder: PlaceholderState): { slope: number; intercept: number }[] | null {
+    return placeholder.adjustments.levels ? levelTransfer(placeholder.adjustments.levels) : null;
+  }
+
+  /**
+   * CSS transform of a placeholder image: position, then rotation and flips around the image centre
+   */
+  getImageTransform(placeholder: PlaceholderState): string {
+    const halfWidth = placeholder.imageWidth * placeholder.scale / 2;
+    const halfHeight = placeholder.imageHeight * placeholder.scale / 2;
+
+    return `translate(${placeholder.offsetX + halfWidth}px, ${placeholder.offsetY + halfHeight}px) ` +
+      `rotate(${placeholder.rotation || 0}deg) ` +
+      `scale(${placeholder.flipHorizontal ? -1 : 1}, ${placeholder.flipVertical ? -1 : 1}) ` +
+      `translate(${-halfWidth}px, ${-halfHeight}px)`;
+  }
 
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        // Store image data and dimensions
-        placeholder.imageData = e.target?.result as string;
-        placeholder.imageWidth = img.width;
-        placeholder.imageHeight = img.height;
+  // Image area of a placeholder in CSS pixels (96 DPI): the cut area plus the bleed on every side
+  private getPlaceholderSizePx(placeholder: PlaceholderState): ImageArea {
+    return getImageArea(placeholder, this.gridBleedMm);
+  }
 
-        // Reset to fit the entire image
-        this.fitImageToPlaceholder(placeholder);
-      };
-      img.src = e.target?.result as string;
+  private getImageCenter(placeholder: PlaceholderState): { x: number; y: number } {
+    return {
+      x: placeholder.offsetX + placeholder.imageWidth * placeholder.scale / 2,
+      y: placeholder.offsetY + placeholder.imageHeight * placeholder.scale / 2
     };
+  }
 
-    reader.readAsDataURL(file);
+  private setImageCenter(placeholder: PlaceholderState, x: number, y: number) {
+    placeholder.offsetX = x - placeholder.imageWidth * placeholder.scale / 2;
+    placeholder.offsetY = y - placeholder.imageHeight * placeholder.scale / 2;
   }
 
-  private fitImageToPlaceholder(placeholder: PlaceholderState) {
-    if (!placeholder.imageWidth || !placeholder.imageHeight) {
-      return;
+  /**
+   * Resolution of a picture on paper at its current zoom.
+   * The image is shown imageWidth × scale CSS pixels wide, and 96 CSS pixels make an inch on paper.
+   */
+  getEffectiveDpi(placeholder: PlaceholderState): number {
+    const printedMm = placeholder.imageWidth * placeholder.scale / CSS_PX_PER_MM;
+    return calculateEffectiveDpi(placeholder.imageWidth, printedMm);
+  }
+
+  isLowResolution(placeholder: PlaceholderState): boolean {
+    return !!placeholder.imageData && this.getEffectiveDpi(placeholder) < this.minimumDpi;
+  }
+
+  get lowResolutionCount(): number {
+    return this.placeholders.filter(placeholder => this.isLowResolution(placeholder)).length;
+  }
+
+  // The picture leaves part of the image area uncovered, which only happens with whitespace allowed
+  private hasVisibleWhitespace(placeholder: PlaceholderState): boolean {
+    if (placeholder.scale < this.calculateMinimumScale(placeholder) * 0.999) {
+      return true;
     }
 
-    // Get the actual placeholder dimensions in CSS pixels
-    // The placeholder element uses mm units, which the browser converts to CSS pixels
-    // We need to convert mm to CSS pixels (not 300 DPI pixels!)
-    // At standard screen DPI (96 DPI): 1mm = 96/25.4 = 3.7795275591 CSS pixels
-    const mmToCssPx = 96 / 25.4;
-    const placeholderWidthPx = this.pictureWidth * mmToCssPx;
-    const placeholderHeightPx = (this.placeholderShape === 'round' ? this.pictureWidth : this.pictureHeight) * mmToCssPx;
+    const constrained = this.constrainOffset(placeholder, placeholder.offsetX, placeholder.offsetY);
+    return Math.abs(constrained.offsetX - placeholder.offsetX) > 0.5 || Math.abs(constrained.offsetY - placeholder.offsetY) > 0.5;
+  }
 
-    // Calculate scale based on allowWhitespace setting
-    const scaleX = placeholderWidthPx / placeholder.imageWidth;
-    const scaleY = placeholderHeightPx / placeholder.imageHeight;
+  private async collectPreflightIssues(): Promise<PreflightIssue[]> {
+    if (this.hasLayoutError) {
+      return [{ kind: 'layout', message: this.errorMessage }];
+    }
 
-    let fitScale: number;
-    if (this.allowWhitespace) {
-      // Use 'contain' behavior: fit entire image, may show whitespace
-      fitScale = Math.min(scaleX, scaleY);
-    } else {
-      // Use 'cover' behavior: fill entire placeholder, may crop image
-      fitScale = Math.max(scaleX, scaleY);
+    // The code encoders are only loaded when a cover has a code
+    const codes = this.placeholders.some(placeholder => placeholder.imageData && placeholder.code)
+      ? await import('./utils/cover-code')
+      : null;
+
+    const issues: PreflightIssue[] = [];
+    this.pages.forEach((page, pageIndex) => {
+      page.placeholders.forEach((placeholder, index) => {
+        const label = `Page ${pageIndex + 1}, cover ${index + 1}`;
+        if (!placeholder.imageData) {
+          issues.push({ kind: 'empty', message: label });
+          return;
+        }
+        if (this.isLowResolution(placeholder)) {
+          issues.push({ kind: 'low-resolution', message: `${label}: ${Math.round(this.getEffectiveDpi(placeholder))} DPI` });
+        }
+        if (this.hasVisibleWhitespace(placeholder)) {
+          issues.push({ kind: 'whitespace', message: `${label}: the picture doesn't fill the cover` });
+        }
+        const code = placeholder.code;
+        if (code && code.placement === 'back' && !this.backSides) {
+          issues.push({ kind: 'code', message: `${label}: the code is on the back side, but back sides are not printed` });
+        } else if (code) {
+          const problem = codes?.findCodeProblem(code, placeholder.width, placeholder.height, placeholder.shape);
+          if (problem) {
+            issues.push({ kind: 'code', message: `${label}: ${problem}` });
+          }
+        }
+      });
+    });
+    return issues;
+  }
+
+  /**
+   * Print or export after a preflight check. The dialog only opens when something was found.
+   */
+  async startOutput(action: PreflightAction): Promise<void> {
+    this.applyPendingGridUpdate();
+    const issues = await this.collectPreflightIssues();
+    if (issues.length === 0) {
+      this.runOutput(action);
+      return;
     }
 
-    // With transform-origin: top left, we need to center the image manually
-    const scaledImageWidth = placeholder.imageWidth * fitScale;
-    const scaledImageHeight = placeholder.imageHeight * fitScale;
+    this.preflightIssues = issues;
+    this.preflightAction = action;
+  }
 
-    placeholder.offsetX = (placeholderWidthPx - scaledImageWidth) / 2;
-    placeholder.offsetY = (placeholderHeightPx - scaledImageHeight) / 2;
-    placeholder.scale = fitScale;
+  onPreflightProceed(): void {
+    const action = this.preflightAction;
+    this.closePreflight();
+    if (action) {
+      this.runOutput(action);
+    }
   }
 
-  clearImage(event: Event, placeholder: PlaceholderState) {
-    event.stopPropagation();
-    placeholder.imageData = null;
-    placeholder.offsetX = 0;
-    placeholder.offsetY = 0;
-    placeholder.scale = 1;
-    placeholder.imageWidth = 0;
-    placeholder.imageHeight = 0;
+  closePreflight(): void {
+    this.preflightAction = null;
+    this.preflightIssues = [];
   }
 
-  resetImage(event: Event, placeholder: PlaceholderState) {
-    event.stopPropagation();
+  private runOutput(action: PreflightAction): void {
+    if (action === 'pdf') {
+      this.exportPdf();
+    } else {
+      this.printAtFullResolution();
+    }
+  }
 
-    // Only reset if there's an image
-    if (!placeholder.imageData || !placeholder.imageWidth || !placeholder.imageHeight) {
+  /**
+   * Print with the full-resolution pictures. They replace the previews only for the print snapshot,
+   * so they are decoded once per print instead of being kept in memory while editing.
+   */
+  private async printAtFullResolution(): Promise<void> {
+    this.printingFullResolution = true;
+    // Let the dialog disappear and the pictures swap before the browser takes its print snapshot
+    await new Promise(resolve => setTimeout(resolve));
+    const images = Array.from(document.querySelectorAll<HTMLImageElement>('.page img'));
+    await Promise.all(images.map(image => image.decode().catch(() => undefined)));
+
+    window.print();
+    this.printingFullResolution = false;
+  }
+
+  /**
+   * Export all pages as a 300 DPI PDF. Rendering happens entirely in the browser.
+   */
+  async exportPdf(): Promise<void> {
+    if (this.hasLayoutError || this.isExportingPdf) {
       return;
     }
 
-    // Use the same logic as when loading an image
-    this.fitImageToPlaceholder(placeholder);
+    this.isExportingPdf = true;
+    this.exportError = '';
+
+    try {
+      // The PDF writer is loaded with the first export
+      const { PdfExportService } = await import('./services/pdf-export.service');
+      const blob = await new PdfExportService().exportSheets({
+        paperWidthMm: this.selectedPaperSize.width * 10,
+        paperHeightMm: this.selectedPaperSize.height * 10,
+        bleedMm: this.gridBleedMm,
+        showCropMarks: this.showCropMarks && this.cropMarksAvailable,
+        showCropLines: this.showCropLines,
+        calibration: this.activeCalibration,
+        pages: this.pages,
+        backPages: this.backSides ? this.pages.map(page => this.getBackCovers(page)) : null,
+        printSides: this.printSides
+      });
+      downloadBlob(blob, 'cover-sheets.pdf');
+    } catch (error) {
+      console.warn('Failed to export PDF:', error);
+      this.exportError = 'PDF export failed. Please try again.';
+    } finally {
+      this.isExportingPdf = false;
+    }
   }
 
-  // Image dragging handlers
-  onImageMouseDown(event: MouseEvent, placeholder: PlaceholderState) {
-    // Only start dragging if there's an image
-    if (!placeholder.imageData) {
+  onTeddyCloudConnectionChange(connection: { baseUrl: string; includeCredentials: boolean }): void {
+    this.teddyCloudUrl = connection.baseUrl;
+    this.teddyCloudIncludeCredentials = connection.includeCredentials;
+    this.saveSettings();
+  }
+
+  /**
+   * Put a cover from the TeddyCloud library into the selected placeholder,
+   * or the next empty one, and move the selection on for the next pick
+   */
+  onTeddyCloudCoverPicked(pick: TeddyCloudCoverPick): void {
+    const target = this.getTargetPlaceholder();
+    if (!target) {
+      this.teddyCloudStatus = 'There is no placeholder for the cover. Please check the layout configuration.';
       return;
     }
 
-    event.preventDefault();
-    event.stopPropagation();
+    const { series, title } = pick.cover;
+    this.loadImage(pick.file, target, series && !title.startsWith(series) ? `${series} – ${title}` : title);
 
-    // Initialize drag state
-    this.dragState = {
-      active: true,
-      placeholderId: placeholder.id,
-      startX: event.clientX,
-      startY: event.clientY,
-      startOffsetX: placeholder.offsetX,
-      startOffsetY: placeholder.offsetY
-    };
+    const placeholders = this.placeholders;
+    const index = placeholders.indexOf(target);
+    const next = placeholders.slice(index + 1).find(placeholder => !placeholder.imageData);
+    this.selectedPlaceholderId = next ? next.id : null;
 
-    placeholder.isDraggingImage = true;
+    const page = this.pages.findIndex(p => p.placeholders.includes(target)) + 1;
+    const slot = this.pages[page - 1].placeholders.indexOf(target) + 1;
+    this.teddyCloudStatus = `Added "${pick.cover.title}" to page ${page}, position ${slot}.`;
   }
 
-  private onMouseMove(event: MouseEvent) {
-    if (!this.dragState.active || this.dragState.placeholderId === null) {
-      return;
+  /**
+   * The selected placeholder, otherwise the first empty one.
+   * Appends a page when all placeholders are filled.
+   */
+  private getTargetPlaceholder(): PlaceholderState | null {
+    if (this.hasLayoutError) {
+      return null;
     }
 
-    // Find the placeholder being dragged
-    const placeholder = this.placeholders.find(p => p.id === this.dragState.placeholderId);
-    if (!placeholder) {
-      return;
+    const placeholders = this.placeholders;
+    const selected = placeholders.find(placeholder => placeholder.id === this.selectedPlaceholderId);
+    if (selected) {
+      return selected;
     }
 
-    // Calculate delta from drag start
-    const deltaX = event.clientX - this.dragState.startX;
-    const deltaY = event.clientY - this.dragState.startY;
+    const empty = placeholders.find(placeholder => !placeholder.imageData);
+    if (empty) {
+      return empty;
+    }
 
-    // Calculate new offset
-    let newOffsetX = this.dragState.startOffsetX + deltaX;
-    let newOffsetY = this.dragState.startOffsetY + deltaY;
+    this.addPage();
+    return this.pages[this.pages.length - 1].placeholders[0] ?? null;
+  }
 
-    // If whitespace is not allowed, constrain the image position
-    if (!this.allowWhitespace) {
-      newOffsetX = this.constrainOffset(newOffsetX, placeholder, 'x');
-      newOffsetY = this.constrainOffset(newOffsetY, placeholder, 'y');
-    }
+  toggleDarkMode(): void {
+    this.isDarkMode.update(value => !value);
+    this.storageService.setDarkMode(this.isDarkMode());
+  }
+
+  /**
+   * Save all current settings to localStorage
+   */
+  private saveSettings(): void {
+    this.storageService.saveSettings(this.getCurrentSettings());
+    this.scheduleHistoryStep();
+  }
 
-    // Update image offset
-    placeholder.offsetX = newOffsetX;
-    placeholder.offsetY = newOffsetY;
+  private getCurrentSettings(): AppSettings {
+    return {
+      paperSizeId: this.paperSizeId,
+      paperWidthMm: this.paperWidthMm,
+      paperHeightMm: this.paperHeightMm,
+      paperOrientation: this.paperOrientation,
+      pictureWidth: this.pictureWidth,
+      pictureHeight: this.pictureHeight,
+      margins: this.margins,
+      spacing: this.spacing,
+      bleed: this.bleed,
+      allowWhitespace: this.allowWhitespace,
+      smartFraming: this.smartFraming,
+      minimumDpi: this.minimumDpi,
+      calibrationProfileId: this.calibrationProfileId,
+      backSides: this.backSides,
+      duplexFlip: this.duplexFlip,
+      printSides: this.printSides,
+      showCropMarks: this.showCropMarks,
+      isDarkMode: this.isDarkMode(),
+      placeholderShape: this.placeholderShape,
+      hexPacking: this.hexPacking,
+      mixedSizes: this.mixedSizes,
+      coverMix: this.coverMix,
+      importSortByName: this.importSortByName,
+      importOverflow: this.importOverflow,
+      sheetTemplateId: this.sheetTemplateId,
+      teddyCloudUrl: this.teddyCloudUrl,
+      teddyCloudIncludeCredentials: this.teddyCloudIncludeCredentials
+    };
   }
 
-  private constrainOffset(offset: number, placeholder: PlaceholderState, axis: 'x' | 'y'): number {
-    // Get the actual placeholder dimensions in CSS pixels
-    const mmToCssPx = 96 / 25.4;
-    const placeholderWidthPx = this.pictureWidth * mmToCssPx;
-    const placeholderHeightPx = this.pictureHeight * mmToCssPx;
+  /**
+   * Download the settings, all pages and the embedded images as a project file
+   */
+  async saveProject(): Promise<void> {
+    this.projectError = '';
+    this.applyPendingGridUpdate();
+
+    // User templates travel with the project, built-in ones are available everywhere
+    const template = this.userTemplates.find(t => t.id === this.sheetTemplateId) ?? null;
+    try {
+      const blob = await this.projectFileService.createProject(this.getCurrentSettings(), this.pages, template);
+      downloadBlob(blob, `cover-project${this.projectFileService.FILE_EXTENSION}`);
+    } catch (error) {
+      console.warn('Failed to save project:', error);
+      this.projectError = 'Failed to save the project. Please try again.';
+    }
+  }
 
-    // Calculate the scaled image dimensions
-    const scaledImageWidth = placeholder.imageWidth * placeholder.scale;
-    const scaledImageHeight = placeholder.imageHeight * placeholder.scale;
+  onProjectFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.openProject(file);
+    }
 
-    if (axis === 'x') {
-      // If the image is smaller than the placeholder, center it
-      if (scaledImageWidth <= placeholderWidthPx) {
-        return (placeholderWidthPx - scaledImageWidth) / 2;
-      }
+    // Allow selecting the same file again
+    input.value = '';
+  }
 
-      // With transform-origin: top left, the image positioning is straightforward:
-      // The left edge is at: offsetX
-      // The right edge is at: offsetX + scaledImageWidth
+  /**
+   * Replace the current document with the contents of a project file
+   */
+  async openProject(file: File): Promise<void> {
+    this.projectError = '';
 
-      // To prevent whitespace on the left: offsetX <= 0
-      const maxOffset = 0;
+    const hasImages = this.placeholders.some(placeholder => placeholder.imageData);
+    if (hasImages && !confirm('Opening a project replaces all current pages and pictures. Continue?')) {
+      return;
+    }
 
-      // To prevent whitespace on the right: offsetX + scaledImageWidth >= placeholderWidthPx
-      // So: offsetX >= placeholderWidthPx - scaledImageWidth (this will be negative for larger images)
-      const minOffset = placeholderWidthPx - scaledImageWidth;
+    try {
+      const project = await this.projectFileService.readProject(file);
 
-      // Clamp the offset
-      return Math.max(minOffset, Math.min(maxOffset, offset));
-    } else {
-      // If the image is smaller than the placeholder, center it
-      if (scaledImageHeight <= placeholderHeightPx) {
-        return (placeholderHeightPx - scaledImageHeight) / 2;
+      // Embedded pictures become object URLs with previews, like imported files
+      const projectPages: PlaceholderImage[][] = [];
+      for (const projectPage of project.pages) {
+        const placeholders: PlaceholderImage[] = [];
+        for (const stored of projectPage.placeholders) {
+          placeholders.push(await replaceImageUrls(stored, adoptImage));
+        }
+        projectPages.push(placeholders);
       }
 
-      // With transform-origin: top left, the image positioning is straightforward:
-      // The top edge is at: offsetY
-      // The bottom edge is at: offsetY + scaledImageHeight
+      // A template from another browser becomes one of the user's templates
+      if (project.template && !this.findTemplate(project.template.id)) {
+        this.addUserTemplate(project.template);
+        this.storageService.saveSheetTemplates(this.userTemplates);
+      }
 
-      // To prevent whitespace on the top: offsetY <= 0
-      const maxOffset = 0;
+      const settings = this.storageService.mergeWithDefaults(project.settings);
+      // Viewer preferences and the server connection stay local
+      settings.isDarkMode = this.isDarkMode();
+      settings.teddyCloudUrl = this.teddyCloudUrl;
+      settings.teddyCloudIncludeCredentials = this.teddyCloudIncludeCredentials;
+      this.applySettings(settings);
+
+      // Recreate the pages on the project's grid, then restore every placeholder
+      this.pages = [];
+      this.pendingLayout = null;
+      this.overflowImages = [];
+      this.calculateGrid();
+      while (this.pages.length < project.pages.length && !this.mixedPageSlots) {
+        this.addPage();
+      }
 
-      // To prevent whitespace on the bottom: offsetY + scaledImageHeight >= placeholderHeightPx
-      // So: offsetY >= placeholderHeightPx - scaledImageHeight (this will be negative for larger images)
-      const minOffset = placeholderHeightPx - scaledImageHeight;
+      projectPages.forEach((projectPage, pageIndex) => {
+        const placeholders = this.pages[pageIndex].placeholders;
+        projectPage.forEach((stored, index) => {
+          const placeholder = placeholders[index];
+          if (placeholder) {
+            Object.assign(placeholder, stored);
+          }
+        });
+      });
+
+      this.updatePrintStyles();
+      this.saveSettings();
+      this.resetHistory();
+      this.documentChanged();
+    } catch (error) {
+      console.warn('Failed to open project:', error);
+      this.projectError = error instanceof Error ? error.message : 'Failed to open project.';
+    }
+  }
 
-      // Clamp the offset
-      return Math.max(minOffset, Math.min(maxOffset, offset));
+  /**
+   * Schedule saving the current pictures to IndexedDB and record an undo step.
+   * Called after every change to the pages or their pictures; continuous changes pass a merge key.
+   */
+  private documentChanged(historyMergeKey: string | null = null): void {
+    // Changes before the session has been restored belong to the startup
+    if (!this.sessionService.isRestored) {
+      return;
     }
+
+    this.scheduleHistoryStep(historyMergeKey);
+    this.sessionService.scheduleSave(() => this.captureLayout());
   }
 
-  private onMouseUp(event: MouseEvent) {
-    if (this.dragState.active && this.dragState.placeholderId !== null) {
-      const placeholder = this.placeholders.find(p => p.id === this.dragState.placeholderId);
-      if (placeholder) {
-        placeholder.isDraggingImage = false;
+  private async restoreSession(): Promise<void> {
+    await this.sessionService.restoreSession(session => {
+      const hasImages = this.placeholders.some(placeholder => placeholder.imageData);
+      if (session.layout.images.length === 0 || hasImages) {
+        return;
       }
-    }
 
-    // Reset drag state
-    this.dragState = {
-      active: false,
-      placeholderId: null,
-      startX: 0,
-      startY: 0,
-      startOffsetX: 0,
-      startOffsetY: 0
-    };
+      if (this.hasLayoutError) {
+        this.pendingLayout = session.layout;
+      } else {
+        this.applyLayout(session.layout);
+      }
+
+      this.restoredSession = {
+        pictureCount: session.layout.images.length,
+        savedAt: new Date(session.savedAt)
+      };
+    });
+
+    this.resetHistory();
   }
 
-  // Mouse wheel zoom handler
-  onWheel(event: WheelEvent, placeholder: PlaceholderState) {
-    // Only zoom if there's an image
-    if (!placeholder.imageData) {
+  /**
+   * Start a new undo history with the current document, e.g. after opening a project.
+   * Undo steps of the previous document are dropped together with their pictures.
+   */
+  private resetHistory(): void {
+    this.documentHistory.reset(this.captureHistoryState());
+    this.releaseImages();
+  }
+
+  /**
+   * Record the changes of the current action as one undo step
+   */
+  private scheduleHistoryStep(mergeKey: string | null = null): void {
+    if (!this.sessionService.isRestored) {
       return;
     }
 
-    event.preventDefault();
-    event.stopPropagation();
+    // Pictures of undo steps that fell off the history are released after the step
+    this.documentHistory.scheduleStep(() => this.captureHistoryState(), mergeKey, () => this.releaseImages());
+  }
 
-    // Get the placeholder element to calculate mouse position relative to it
-    const target = event.currentTarget as HTMLElement;
-    const rect = target.getBoundingClientRect();
+  private captureHistoryState(): HistoryState {
+    return {
+      // Viewer preferences and the server connection aren't part of the history
+      settings: { ...this.getCurrentSettings(), isDarkMode: false, teddyCloudUrl: '', teddyCloudIncludeCredentials: false },
+      layout: this.captureLayout()
+    };
+  }
 
-    // Calculate mouse position relative to placeholder
-    const mouseX = event.clientX - rect.left;
-    const mouseY = event.clientY - rect.top;
+  get canUndo(): boolean {
+    return this.documentHistory.canUndo;
+  }
 
-    // Calculate zoom factor (1.1 for zoom in, 1/1.1 for zoom out)
-    const zoomFactor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
-    const oldScale = placeholder.scale;
-    let newScale = oldScale * zoomFactor;
+  get canRedo(): boolean {
+    return this.documentHistory.canRedo;
+  }
 
-    // If whitespace is not allowed, enforce minimum scale
-    if (!this.allowWhitespace) {
-      const minScale = this.calculateMinimumScale(placeholder);
-      newScale = Math.max(minScale, newScale);
-    }
+  undo(): void {
+    this.documentHistory.undo(() => this.captureHistoryState(), state => this.restoreHistoryState(state));
+  }
 
-    // Calculate the point under the mouse in the image coordinate space (before zoom)
-    const imageX = (mouseX - placeholder.offsetX) / oldScale;
-    const imageY = (mouseY - placeholder.offsetY) / oldScale;
+  redo(): void {
+    this.documentHistory.redo(() => this.captureHistoryState(), state => this.restoreHistoryState(state));
+  }
 
-    // Calculate new offset to keep the point under the mouse stationary
-    let newOffsetX = mouseX - imageX * newScale;
-    let newOffsetY = mouseY - imageY * newScale;
+  /**
+   * Bring back settings and pictures of an earlier state without recording a new step
+   */
+  private restoreHistoryState(state: HistoryState): void {
+    const selectedIndex = this.placeholders.findIndex(placeholder => placeholder.id === this.selectedPlaceholderId);
 
-    // Update scale first so constrainOffset can use it
-    placeholder.scale = newScale;
+    this.applySettings({
+      ...state.settings,
+      isDarkMode: this.isDarkMode(),
+      teddyCloudUrl: this.teddyCloudUrl,
+      teddyCloudIncludeCredentials: this.teddyCloudIncludeCredentials
+    });
 
-    // If whitespace is not allowed, constrain the image position after zooming
-    if (!this.allowWhitespace) {
-      newOffsetX = this.constrainOffset(newOffsetX, placeholder, 'x');
-      newOffsetY = this.constrainOffset(newOffsetY, placeholder, 'y');
-    }
+    // Recreate the pages from the stored layout, including its page count
+    this.pages = [];
+    this.overflowImages = [];
+    this.pendingLayout = state.layout;
+    this.calculateGrid();
+    this.updatePrintStyles();
+    this.saveSettings();
 
-    // Update placeholder state
-    placeholder.offsetX = newOffsetX;
-    placeholder.offsetY = newOffsetY;
+    this.selectedPlaceholderId = this.placeholders[selectedIndex]?.id ?? null;
   }
 
-  private calculateMinimumScale(placeholder: PlaceholderState): number {
-    // Get the actual placeholder dimensions in CSS pixels
-    const mmToCssPx = 96 / 25.4;
-    const placeholderWidthPx = this.pictureWidth * mmToCssPx;
-    const placeholderHeightPx = (this.placeholderShape === 'round' ? this.pictureWidth : this.pictureHeight) * mmToCssPx;
+  private onKeyDown(event: KeyboardEvent) {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+      return;
+    }
 
-    // Calculate minimum scale needed to cover the placeholder completely
-    // The image must be at least as wide and as tall as the placeholder
-    const minScaleX = placeholderWidthPx / placeholder.imageWidth;
-    const minScaleY = placeholderHeightPx / placeholder.imageHeight;
+    const key = event.key.toLowerCase();
+    // Printing with the shortcut goes through the preflight check too
+    if (key === 'p' && !event.shiftKey) {
+      event.preventDefault();
+      this.startOutput('print');
+      return;
+    }
 
-    // Use the larger of the two to ensure both dimensions are covered
-    return Math.max(minScaleX, minScaleY);
+    if (this.isTextField(event.target)) {
+      return;
+    }
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.redo();
+    }
   }
 
-  toggleDarkMode(): void {
-    this.isDarkMode.update(value => !value);
-    this.storageService.setDarkMode(this.isDarkMode());
+  // Text fields keep their own undo
+  private isTextField(target: EventTarget | null): boolean {
+    if (target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable)) {
+      return true;
+    }
+    return target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button', 'file'].includes(target.type);
   }
 
   /**
-   * Save all current settings to localStorage
+   * Hide the restore notice and keep working with the restored pictures
    */
-  private saveSettings(): void {
-    this.storageService.saveSettings({
-      selectedPaperSizeIndex: this.selectedPaperSizeIndex,
-      pictureWidth: this.pictureWidth,
-      pictureHeight: this.pictureHeight,
-      margins: this.margins,
-      spacing: this.spacing,
-      allowWhitespace: this.allowWhitespace,
-      showCropMarks: this.showCropMarks,
-      isDarkMode: this.isDarkMode(),
-      placeholderShape: this.placeholderShape
-    });
+  keepRestoredSession(): void {
+    this.restoredSession = null;
+  }
+
+  /**
+   * Throw away the restored pictures and start with an empty document
+   */
+  discardRestoredSession(): void {
+    this.restoredSession = null;
+    this.pages = [];
+    this.pendingLayout = null;
+    this.overflowImages = [];
+    this.calculateGrid();
+
+    this.sessionService.clearSession();
+  }
+
+  // Dropping a project file anywhere outside the placeholders opens it, pictures fill the empty placeholders
+  onPageDragOver(event: DragEvent): void {
+    event.preventDefault();
+  }
+
+  onPageDrop(event: DragEvent): void {
+    event.preventDefault();
+
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    if (files.length === 1 && this.projectFileService.isProjectFile(files[0])) {
+      this.openProject(files[0]);
+    } else if (files.length > 0) {
+      this.importFiles(files);
+    }
   }
 
   /**
    * Restore all settings to default values, but keep dark mode preference
    */
   restoreSettings(): void {
+    if (!confirm('Restore all settings to their defaults? The pictures are kept. You can undo this with Ctrl+Z.')) {
+      return;
+    }
+
     // Reset all settings to defaults
-    this.selectedPaperSizeIndex = 0;
-    this.selectedPaperSize = this.paperSizes[0];
+    this.applyPaperSelection({
+      paperSizeId: PAPER_SIZES[0].id,
+      widthMm: PAPER_SIZES[0].widthMm,
+      heightMm: PAPER_SIZES[0].heightMm,
+      orientation: 'portrait'
+    });
     this.pictureWidth = 44;
     this.pictureHeight = 44;
     this.margins = 4;
     this.spacing = 2;
+    this.bleed = 0;
     this.allowWhitespace = false;
+    this.smartFraming = false;
+    this.minimumDpi = DEFAULT_MINIMUM_DPI;
+    this.calibrationProfileId = null;
+    this.backSides = false;
+    this.duplexFlip = 'long-edge';
+    this.printSides = 'both';
     this.showCropMarks = true;
     this.placeholderShape = 'rectangular';
+    this.hexPacking = false;
+    this.mixedSizes = false;
+    this.coverMix = normalizeCoverMix(DEFAULT_COVER_MIX);
+    this.importSortByName = false;
+    this.importOverflow = 'pages';
+    this.sheetTemplateId = null;
+    this.updateSheetSize();
 
     this.calculateGrid();
     this.updatePrintStyles();
@@ -677,13 +2687,19 @@ export class AppComponent {
    * Clear all pictures from all placeholders
    */
   clearAllPictures(): void {
-    this.placeholders.forEach(placeholder => {
-      placeholder.imageData = null;
-      placeholder.offsetX = 0;
-      placeholder.offsetY = 0;
-      placeholder.scale = 1;
-      placeholder.imageWidth = 0;
-      placeholder.imageHeight = 0;
-    });
+    if (this.pictureCount > 0 && !confirm('Remove all pictures from all pages? You can undo this with Ctrl+Z.')) {
+      return;
+    }
+
+    this.placeholders.forEach(placeholder => Object.assign(placeholder, createEmptyImage()));
+    this.pendingLayout = null;
+    this.overflowImages = [];
+    this.documentChanged();
+    this.releaseImages();
+  }
+
+  onCoverMixChange(mix: CoverGroup[]) {
+    this.coverMix = mix;
+    this.onParameterChange();
   }
 }
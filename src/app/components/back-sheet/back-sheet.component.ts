@@ -0,0 +1,28 @@
+import { Component, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BACK_TEXT_SIZE_MM, BackSheetCover } from '../../models/back-side.model';
+import { CoverCodeOverlayComponent } from '../cover-code-overlay/cover-code-overlay.component';
+
+/**
+ * Back of a sheet: every cover's back at its mirrored position.
+ * As a registration test it prints target marks on the cut areas instead.
+ */
+@Component({
+  selector: 'app-back-sheet',
+  imports: [CommonModule, CoverCodeOverlayComponent],
+  templateUrl: './back-sheet.component.html',
+  styleUrl: './back-sheet.component.css'
+})
+export class BackSheetComponent {
+  covers = input.required<BackSheetCover[]>();
+  // The back extends this far beyond the cut line, like the front (mm)
+  bleedMm = input(0);
+  registration = input(false);
+
+  readonly textSizeMm = BACK_TEXT_SIZE_MM;
+
+  // The covers are recalculated on every check, keep their elements (and loaded images)
+  trackByIndex(index: number): number {
+    return index;
+  }
+}
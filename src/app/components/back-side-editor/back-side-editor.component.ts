@@ -0,0 +1,52 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CoverBack, DEFAULT_COVER_BACK } from '../../models/back-side.model';
+import { getPreviewUrl } from '../../utils/image-file';
+
+@Component({
+  selector: 'app-back-side-editor',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './back-side-editor.component.html',
+  styleUrl: './back-side-editor.component.css'
+})
+export class BackSideEditorComponent {
+  back = input<CoverBack | null>(null);
+  // Text of a text back without custom text: the title and TeddyCloud content name
+  generatedText = input('');
+  canApplyToAll = input(false);
+  // Result of the last action, set by the parent
+  message = input('');
+
+  backChange = output<CoverBack | null>();
+  imageSelected = output<File>();
+  applyToAll = output<void>();
+
+  thumbnailUrl(imageData: string): string {
+    return getPreviewUrl(imageData);
+  }
+
+  setEnabled(enabled: boolean) {
+    this.backChange.emit(enabled ? { ...DEFAULT_COVER_BACK } : null);
+  }
+
+  /**
+   * Emit a changed copy, the back of a placeholder is never modified in place
+   */
+  update(changes: Partial<CoverBack>) {
+    const back = this.back();
+    if (back) {
+      this.backChange.emit({ ...back, ...changes });
+    }
+  }
+
+  onFileSelected(event: Event) {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    if (file) {
+      this.imageSelected.emit(file);
+    }
+    // Allow selecting the same file again
+    fileInput.value = '';
+  }
+}
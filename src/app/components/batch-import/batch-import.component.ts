@@ -0,0 +1,43 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ImportOptions, ImportOverflow, RejectedFile } from '../../models/import.model';
+
+@Component({
+  selector: 'app-batch-import',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './batch-import.component.html',
+  styleUrl: './batch-import.component.css'
+})
+export class BatchImportComponent {
+  sortByName = input(false);
+  overflow = input<ImportOverflow>('pages');
+  // Mixed cover sizes have a fixed number of pages
+  canAddPages = input(true);
+  isImporting = input(false);
+  // Result of the last import, set by the parent
+  message = input('');
+  rejected = input<RejectedFile[]>([]);
+
+  filesSelected = output<File[]>();
+  optionsChange = output<ImportOptions>();
+  dismissRejected = output<void>();
+
+  setSortByName(sortByName: boolean) {
+    this.optionsChange.emit({ sortByName, overflow: this.overflow() });
+  }
+
+  setOverflow(overflow: ImportOverflow) {
+    this.optionsChange.emit({ sortByName: this.sortByName(), overflow });
+  }
+
+  onFilesSelected(event: Event) {
+    const fileInput = event.target as HTMLInputElement;
+    const files = Array.from(fileInput.files ?? []);
+    if (files.length > 0) {
+      this.filesSelected.emit(files);
+    }
+    // Allow selecting the same files again
+    fileInput.value = '';
+  }
+}
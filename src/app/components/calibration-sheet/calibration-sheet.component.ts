@@ -0,0 +1,41 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CALIBRATION_MARK_MM } from '../../models/calibration.model';
+import { calibrationRulerLength } from '../../utils/calibration';
+
+interface RulerTick {
+  positionMm: number;
+  lengthMm: number;
+  label: string | null;
+}
+
+/**
+ * Rulers for measuring how a printer scales and shifts its output.
+ * Only visible in print, and never corrected by a calibration profile.
+ */
+@Component({
+  selector: 'app-calibration-sheet',
+  imports: [CommonModule],
+  templateUrl: './calibration-sheet.component.html',
+  styleUrl: './calibration-sheet.component.css'
+})
+export class CalibrationSheetComponent {
+  paperWidthMm = input.required<number>();
+  paperHeightMm = input.required<number>();
+
+  readonly markMm = CALIBRATION_MARK_MM;
+
+  rulerXMm = computed(() => calibrationRulerLength(this.paperWidthMm()));
+  rulerYMm = computed(() => calibrationRulerLength(this.paperHeightMm()));
+  ticksX = computed(() => this.createTicks(this.rulerXMm()));
+  ticksY = computed(() => this.createTicks(this.rulerYMm()));
+
+  // A tick every millimetre, longer ones every 5 mm and numbered ones every centimetre
+  private createTicks(lengthMm: number): RulerTick[] {
+    return Array.from({ length: lengthMm + 1 }, (_, mm) => ({
+      positionMm: this.markMm + mm,
+      lengthMm: mm % 10 === 0 ? 5 : mm % 5 === 0 ? 3.5 : 2,
+      label: mm % 10 === 0 ? String(mm / 10) : null
+    }));
+  }
+}
@@ -0,0 +1,49 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CAPTION_FONTS, CoverCaption, DEFAULT_CAPTION } from '../../models/caption.model';
+import { createCanvasTextMeasurer, layoutCaption } from '../../utils/caption-layout';
+
+@Component({
+  selector: 'app-caption-editor',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './caption-editor.component.html',
+  styleUrl: './caption-editor.component.css'
+})
+export class CaptionEditorComponent {
+  caption = input<CoverCaption | null>(null);
+  widthMm = input.required<number>();
+  heightMm = input.required<number>();
+  shape = input<'rectangular' | 'round'>('rectangular');
+
+  captionChange = output<CoverCaption | null>();
+
+  readonly fonts = CAPTION_FONTS;
+
+  private measure = createCanvasTextMeasurer();
+
+  warnings = computed(() => {
+    const caption = this.caption();
+    return caption
+      ? layoutCaption(caption, this.widthMm(), this.heightMm(), this.shape(), this.measure).warnings
+      : [];
+  });
+
+  setEnabled(enabled: boolean) {
+    this.captionChange.emit(enabled ? { ...DEFAULT_CAPTION } : null);
+  }
+
+  /**
+   * Emit a changed copy, the caption of a placeholder is never modified in place
+   */
+  update(changes: Partial<CoverCaption>) {
+    const caption = this.caption();
+    if (caption) {
+      this.captionChange.emit({ ...caption, ...changes });
+    }
+  }
+
+  setBandEnabled(enabled: boolean) {
+    this.update({ bandColor: enabled ? '#000000' : null });
+  }
+}
@@ -0,0 +1,42 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CoverCaption } from '../../models/caption.model';
+import { CaptionArc, captionArcPath, createCanvasTextMeasurer, layoutCaption } from '../../utils/caption-layout';
+
+// Text paths are referenced by id, which has to be unique in the document
+let nextOverlayId = 0;
+
+@Component({
+  selector: 'app-caption-overlay',
+  imports: [CommonModule],
+  templateUrl: './caption-overlay.component.html',
+  styleUrl: './caption-overlay.component.css'
+})
+export class CaptionOverlayComponent {
+  caption = input.required<CoverCaption>();
+  widthMm = input.required<number>();
+  heightMm = input.required<number>();
+  shape = input<'rectangular' | 'round'>('rectangular');
+  // The overlay covers the image area, which extends this far beyond the cut area
+  bleedMm = input(0);
+
+  private measure = createCanvasTextMeasurer();
+  private readonly overlayId = nextOverlayId++;
+
+  layout = computed(() =>
+    layoutCaption(this.caption(), this.widthMm(), this.heightMm(), this.shape(), this.measure, this.bleedMm()));
+
+  // Cut area coordinates, with the bleed around them
+  viewBox = computed(() => {
+    const { widthMm, heightMm, bleedMm } = this.layout();
+    return `${-bleedMm} ${-bleedMm} ${widthMm + 2 * bleedMm} ${heightMm + 2 * bleedMm}`;
+  });
+
+  arcPathId(arc: CaptionArc): string {
+    return `caption-arc-${this.overlayId}-${arc.side}`;
+  }
+
+  arcPath(arc: CaptionArc): string {
+    return captionArcPath(arc, this.layout());
+  }
+}
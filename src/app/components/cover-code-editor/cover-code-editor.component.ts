@@ -0,0 +1,43 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CoverCode, DEFAULT_COVER_CODE } from '../../models/cover-code.model';
+import { findCodeProblem, minimumModuleMm } from '../../utils/cover-code';
+
+@Component({
+  selector: 'app-cover-code-editor',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './cover-code-editor.component.html',
+  styleUrl: './cover-code-editor.component.css'
+})
+export class CoverCodeEditorComponent {
+  code = input<CoverCode | null>(null);
+  widthMm = input.required<number>();
+  heightMm = input.required<number>();
+  shape = input<'rectangular' | 'round'>('rectangular');
+  // Codes on the back side are only printed with back sides turned on
+  backSides = input(false);
+
+  codeChange = output<CoverCode | null>();
+
+  problem = computed(() => {
+    const code = this.code();
+    return code ? findCodeProblem(code, this.widthMm(), this.heightMm(), this.shape()) : null;
+  });
+
+  minimumModuleMm = computed(() => minimumModuleMm(this.code()?.kind ?? DEFAULT_COVER_CODE.kind));
+
+  setEnabled(enabled: boolean) {
+    this.codeChange.emit(enabled ? { ...DEFAULT_COVER_CODE } : null);
+  }
+
+  /**
+   * Emit a changed copy, the code of a placeholder is never modified in place
+   */
+  update(changes: Partial<CoverCode>) {
+    const code = this.code();
+    if (code) {
+      this.codeChange.emit({ ...code, ...changes });
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CoverCode } from '../../models/cover-code.model';
+import { codePath, codeRects, encodeCoverCode, layoutCoverCode } from '../../utils/cover-code';
+
+@Component({
+  selector: 'app-cover-code-overlay',
+  imports: [CommonModule],
+  templateUrl: './cover-code-overlay.component.html',
+  styleUrl: './cover-code-overlay.component.css'
+})
+export class CoverCodeOverlayComponent {
+  code = input.required<CoverCode>();
+  widthMm = input.required<number>();
+  heightMm = input.required<number>();
+  shape = input<'rectangular' | 'round'>('rectangular');
+  // The overlay covers the image area, which extends this far beyond the cut area
+  bleedMm = input(0);
+
+  private symbol = computed(() => encodeCoverCode(this.code().kind, this.code().text));
+
+  layout = computed(() => {
+    const symbol = this.symbol();
+    return symbol ? layoutCoverCode(symbol, this.code(), this.widthMm(), this.heightMm(), this.shape()) : null;
+  });
+
+  path = computed(() => {
+    const symbol = this.symbol();
+    const layout = this.layout();
+    return symbol && layout ? codePath(codeRects(symbol, layout)) : '';
+  });
+
+  // Cut area coordinates, with the bleed around them
+  viewBox = computed(() => {
+    const bleed = this.bleedMm();
+    return `${-bleed} ${-bleed} ${this.widthMm() + 2 * bleed} ${this.heightMm() + 2 * bleed}`;
+  });
+}
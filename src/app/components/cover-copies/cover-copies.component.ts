@@ -0,0 +1,30 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+@Component({
+  selector: 'app-cover-copies',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './cover-copies.component.html',
+  styleUrl: './cover-copies.component.css'
+})
+export class CoverCopiesComponent {
+  // Another placeholder's crop is waiting to be pasted
+  canPaste = input(false);
+  // Result of the last action, set by the parent
+  message = input('');
+
+  makeCopies = output<number>();
+  copyCrop = output<void>();
+  pasteCrop = output<void>();
+
+  // Total number of covers with this picture, including the selected one
+  quantity = 2;
+
+  fill() {
+    const quantity = Math.floor(this.quantity);
+    if (quantity > 1) {
+      this.makeCopies.emit(quantity);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CoverGroup, MAX_MIXED_COVERS } from '../../models/cover-mix.model';
+
+@Component({
+  selector: 'app-cover-mix',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './cover-mix.component.html',
+  styleUrl: './cover-mix.component.css'
+})
+export class CoverMixComponent {
+  mix = input.required<CoverGroup[]>();
+
+  mixChange = output<CoverGroup[]>();
+
+  readonly MAX_COVERS = MAX_MIXED_COVERS;
+
+  total = computed(() => this.mix().reduce((sum, group) => sum + group.quantity, 0));
+
+  update(index: number, changes: Partial<CoverGroup>) {
+    const values = Object.values(changes);
+    if (values.some(value => typeof value === 'number' && !(value > 0))) {
+      return;
+    }
+
+    this.mixChange.emit(this.mix().map((group, i) => {
+      if (i !== index) {
+        return group;
+      }
+      const updated = { ...group, ...changes };
+      if (changes.quantity !== undefined) {
+        updated.quantity = Math.floor(changes.quantity);
+      }
+      // Round covers are as high as they are wide
+      if (updated.shape === 'round') {
+        updated.height = updated.width;
+      }
+      return updated;
+    }));
+  }
+
+  add() {
+    const last = this.mix()[this.mix().length - 1];
+    this.mixChange.emit([...this.mix(), last ? { ...last, quantity: 1 } : { quantity: 1, shape: 'rectangular', width: 45, height: 45 }]);
+  }
+
+  remove(index: number) {
+    this.mixChange.emit(this.mix().filter((_, i) => i !== index));
+  }
+}
@@ -0,0 +1,22 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DuplexFlip, DuplexOptions, PrintSides } from '../../models/back-side.model';
+
+@Component({
+  selector: 'app-duplex-settings',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './duplex-settings.component.html',
+  styleUrl: './duplex-settings.component.css'
+})
+export class DuplexSettingsComponent {
+  options = input.required<DuplexOptions>();
+  canPrintTest = input(true);
+
+  optionsChange = output<DuplexOptions>();
+  printRegistration = output<void>();
+
+  update(changes: Partial<DuplexOptions>) {
+    this.optionsChange.emit({ ...this.options(), ...changes });
+  }
+}
@@ -0,0 +1,32 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TRAY_DRAG_TYPE, TrayImage } from '../../models/import.model';
+import { getPreviewUrl } from '../../utils/image-file';
+
+@Component({
+  selector: 'app-holding-tray',
+  imports: [CommonModule],
+  templateUrl: './holding-tray.component.html',
+  styleUrl: './holding-tray.component.css'
+})
+export class HoldingTrayComponent {
+  images = input.required<TrayImage[]>();
+  // False while no placeholder is empty
+  canFill = input(true);
+
+  fillEmpty = output<void>();
+  remove = output<number>();
+  clear = output<void>();
+
+  thumbnailUrl(image: TrayImage): string {
+    return getPreviewUrl(image.imageData);
+  }
+
+  onDragStart(event: DragEvent, image: TrayImage) {
+    // Placeholders recognise tray pictures by this type and take them out of the tray
+    event.dataTransfer?.setData(TRAY_DRAG_TYPE, String(image.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+}
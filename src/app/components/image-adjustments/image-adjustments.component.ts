@@ -0,0 +1,49 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DEFAULT_ADJUSTMENTS, ImageAdjustments } from '../../models/adjustments.model';
+import { hasAdjustments } from '../../utils/image-adjustments';
+
+type SliderKey = 'brightness' | 'contrast' | 'saturation' | 'grayscale' | 'sepia';
+
+@Component({
+  selector: 'app-image-adjustments',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './image-adjustments.component.html',
+  styleUrl: './image-adjustments.component.css'
+})
+export class ImageAdjustmentsComponent {
+  adjustments = input.required<ImageAdjustments>();
+  // More than one picture in the document
+  canCopy = input(false);
+
+  adjustmentsChange = output<ImageAdjustments>();
+  copyToAll = output<void>();
+
+  readonly sliders: { key: SliderKey; label: string; max: number }[] = [
+    { key: 'brightness', label: 'Brightness', max: 200 },
+    { key: 'contrast', label: 'Contrast', max: 200 },
+    { key: 'saturation', label: 'Saturation', max: 200 },
+    { key: 'grayscale', label: 'Grayscale', max: 100 },
+    { key: 'sepia', label: 'Sepia', max: 100 }
+  ];
+
+  get isAdjusted(): boolean {
+    return hasAdjustments(this.adjustments()) || this.adjustments().autoLevels;
+  }
+
+  setValue(key: SliderKey, value: number) {
+    if (Number.isFinite(value)) {
+      this.adjustmentsChange.emit({ ...this.adjustments(), [key]: value });
+    }
+  }
+
+  setAutoLevels(enabled: boolean) {
+    // Levels are measured again by the app when switched on
+    this.adjustmentsChange.emit({ ...this.adjustments(), autoLevels: enabled, levels: null });
+  }
+
+  reset() {
+    this.adjustmentsChange.emit({ ...DEFAULT_ADJUSTMENTS });
+  }
+}
@@ -0,0 +1,59 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ImageTransform } from '../../models/sheet.model';
+
+@Component({
+  selector: 'app-image-transform',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './image-transform.component.html',
+  styleUrl: './image-transform.component.css'
+})
+export class ImageTransformComponent {
+  rotation = input(0);
+  flipHorizontal = input(false);
+  flipVertical = input(false);
+
+  transformChange = output<ImageTransform>();
+
+  rotateBy(degrees: number) {
+    // Quarter turns snap to the next multiple of 90 degrees
+    const current = this.rotation();
+    const target = degrees > 0
+      ? Math.floor(current / 90 + 1e-9) * 90 + 90
+      : Math.ceil(current / 90 - 1e-9) * 90 - 90;
+    this.setRotation(target);
+  }
+
+  setRotation(rotation: number) {
+    if (!Number.isFinite(rotation)) {
+      return;
+    }
+    this.emit({ rotation: this.normalizeAngle(rotation) });
+  }
+
+  toggleFlip(axis: 'horizontal' | 'vertical') {
+    this.emit(axis === 'horizontal'
+      ? { flipHorizontal: !this.flipHorizontal() }
+      : { flipVertical: !this.flipVertical() });
+  }
+
+  reset() {
+    this.transformChange.emit({ rotation: 0, flipHorizontal: false, flipVertical: false });
+  }
+
+  private emit(changes: Partial<ImageTransform>) {
+    this.transformChange.emit({
+      rotation: this.rotation(),
+      flipHorizontal: this.flipHorizontal(),
+      flipVertical: this.flipVertical(),
+      ...changes
+    });
+  }
+
+  // Keep angles in the range of the slider: -180 < angle <= 180
+  private normalizeAngle(angle: number): number {
+    const normalized = ((angle % 360) + 360) % 360;
+    return normalized > 180 ? normalized - 360 : normalized;
+  }
+}
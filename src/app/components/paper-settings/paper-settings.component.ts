@@ -0,0 +1,87 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CUSTOM_PAPER_SIZE_ID, PaperOrientation, PaperSize } from '../../models/paper.model';
+
+export interface PaperSelection {
+  paperSizeId: string;
+  // Upright size, the orientation is applied by the sheet
+  widthMm: number;
+  heightMm: number;
+  orientation: PaperOrientation;
+}
+
+@Component({
+  selector: 'app-paper-settings',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './paper-settings.component.html',
+  styleUrl: './paper-settings.component.css'
+})
+export class PaperSettingsComponent {
+  sizes = input.required<PaperSize[]>();
+  presets = input<PaperSize[]>([]);
+  paperSizeId = input.required<string>();
+  widthMm = input.required<number>();
+  heightMm = input.required<number>();
+  orientation = input<PaperOrientation>('portrait');
+
+  paperChange = output<PaperSelection>();
+  savePreset = output<string>();
+  deletePreset = output<string>();
+
+  readonly customId = CUSTOM_PAPER_SIZE_ID;
+
+  // Limits for custom sizes, larger than any printer we know of
+  readonly MIN_SIZE_MM = 20;
+  readonly MAX_SIZE_MM = 1000;
+
+  presetName = '';
+  sizeError = '';
+
+  isCustom = computed(() => this.paperSizeId() === CUSTOM_PAPER_SIZE_ID);
+  isPreset = computed(() => this.presets().some(preset => preset.id === this.paperSizeId()));
+
+  selectPaper(id: string) {
+    const size = [...this.sizes(), ...this.presets()].find(s => s.id === id);
+    this.sizeError = '';
+    // Switching to a custom size starts from the current dimensions
+    this.emit({
+      paperSizeId: id,
+      widthMm: size ? size.widthMm : this.widthMm(),
+      heightMm: size ? size.heightMm : this.heightMm()
+    });
+  }
+
+  setCustomSize(dimension: 'width' | 'height', value: number) {
+    if (!Number.isFinite(value) || value < this.MIN_SIZE_MM || value > this.MAX_SIZE_MM) {
+      this.sizeError = `Width and height must be between ${this.MIN_SIZE_MM} and ${this.MAX_SIZE_MM} mm.`;
+      return;
+    }
+    this.sizeError = '';
+    this.emit(dimension === 'width' ? { widthMm: value } : { heightMm: value });
+  }
+
+  setOrientation(orientation: PaperOrientation) {
+    if (orientation !== this.orientation()) {
+      this.emit({ orientation });
+    }
+  }
+
+  save() {
+    const name = this.presetName.trim();
+    if (name) {
+      this.savePreset.emit(name);
+      this.presetName = '';
+    }
+  }
+
+  private emit(changes: Partial<PaperSelection>) {
+    this.paperChange.emit({
+      paperSizeId: this.paperSizeId(),
+      widthMm: this.widthMm(),
+      heightMm: this.heightMm(),
+      orientation: this.orientation(),
+      ...changes
+    });
+  }
+}
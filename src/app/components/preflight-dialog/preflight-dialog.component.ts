@@ -0,0 +1,21 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PreflightAction, PreflightIssue } from '../../models/preflight.model';
+import { groupPreflightIssues } from '../../utils/preflight';
+
+@Component({
+  selector: 'app-preflight-dialog',
+  imports: [CommonModule],
+  templateUrl: './preflight-dialog.component.html',
+  styleUrl: './preflight-dialog.component.css'
+})
+export class PreflightDialogComponent {
+  issues = input.required<PreflightIssue[]>();
+  action = input.required<PreflightAction>();
+
+  proceed = output<void>();
+  closed = output<void>();
+
+  groups = computed(() => groupPreflightIssues(this.issues()));
+  proceedLabel = computed(() => this.action() === 'pdf' ? 'Export anyway' : 'Print anyway');
+}
@@ -0,0 +1,92 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CALIBRATION_MARK_MM, CalibrationMeasurements, CalibrationProfile, NO_CALIBRATION } from '../../models/calibration.model';
+import { calibrationFromMeasurements, findCalibrationProblem, measurementsFromCalibration } from '../../utils/calibration';
+
+@Component({
+  selector: 'app-printer-calibration',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './printer-calibration.component.html',
+  styleUrl: './printer-calibration.component.css'
+})
+export class PrinterCalibrationComponent {
+  profiles = input<CalibrationProfile[]>([]);
+  selectedId = input<string | null>(null);
+  // Ruler lengths of the calibration sheet for the current paper (mm)
+  rulerXMm = input.required<number>();
+  rulerYMm = input.required<number>();
+
+  profileChange = output<string | null>();
+  saveProfile = output<CalibrationProfile>();
+  deleteProfile = output<string>();
+  printSheet = output<void>();
+
+  readonly markMm = CALIBRATION_MARK_MM;
+
+  selected = computed(() => this.profiles().find(profile => profile.id === this.selectedId()) ?? null);
+
+  // Measurement form, for a new profile or the selected one
+  isEditing = false;
+  editingId = '';
+  draftName = '';
+  draftMeasurements: CalibrationMeasurements = { rulerXMm: 0, rulerYMm: 0, markXMm: CALIBRATION_MARK_MM, markYMm: CALIBRATION_MARK_MM };
+
+  select(id: string) {
+    this.isEditing = false;
+    this.profileChange.emit(id || null);
+  }
+
+  startEditing(profile: CalibrationProfile | null) {
+    this.editingId = profile?.id ?? '';
+    this.draftName = profile?.name ?? '';
+    this.draftMeasurements = profile
+      ? this.roundMeasurements(measurementsFromCalibration(profile, this.rulerXMm(), this.rulerYMm()))
+      : this.nominalMeasurements();
+    this.isEditing = true;
+  }
+
+  get draft(): CalibrationProfile {
+    return {
+      id: this.editingId,
+      name: this.draftName.trim(),
+      ...calibrationFromMeasurements(this.draftMeasurements, this.rulerXMm(), this.rulerYMm())
+    };
+  }
+
+  get draftProblem(): string | null {
+    if (!this.draftName.trim()) {
+      return 'Please name the printer.';
+    }
+    return findCalibrationProblem(this.draft);
+  }
+
+  save() {
+    if (!this.draftProblem) {
+      this.saveProfile.emit(this.draft);
+      this.isEditing = false;
+    }
+  }
+
+  // Scale as a percentage and offsets with a sign, for the summary
+  describe(profile: CalibrationProfile): string {
+    const percent = (scale: number) => (scale * 100).toFixed(1) + '%';
+    const offset = (mm: number) => (mm >= 0 ? '+' : '') + mm.toFixed(1) + ' mm';
+    return `Printer scale ${percent(profile.scaleX)} × ${percent(profile.scaleY)}, shift ${offset(profile.offsetXMm)} / ${offset(profile.offsetYMm)}`;
+  }
+
+  private nominalMeasurements(): CalibrationMeasurements {
+    return measurementsFromCalibration(NO_CALIBRATION, this.rulerXMm(), this.rulerYMm());
+  }
+
+  // Measurements are entered to a tenth of a millimetre
+  private roundMeasurements(measurements: CalibrationMeasurements): CalibrationMeasurements {
+    const round = (mm: number) => Math.round(mm * 10) / 10;
+    return {
+      rulerXMm: round(measurements.rulerXMm),
+      rulerYMm: round(measurements.rulerYMm),
+      markXMm: round(measurements.markXMm),
+      markYMm: round(measurements.markYMm)
+    };
+  }
+}
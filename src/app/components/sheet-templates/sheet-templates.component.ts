@@ -0,0 +1,85 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { createGridSlots, findTemplateProblem, LabelGrid, SheetTemplate } from '../../models/template.model';
+
+@Component({
+  selector: 'app-sheet-templates',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './sheet-templates.component.html',
+  styleUrl: './sheet-templates.component.css'
+})
+export class SheetTemplatesComponent {
+  builtInTemplates = input.required<SheetTemplate[]>();
+  userTemplates = input<SheetTemplate[]>([]);
+  selectedId = input<string | null>(null);
+  // Starting paper size for new templates
+  paperWidthMm = input(210);
+  paperHeightMm = input(297);
+  // Result of the last import, set by the parent
+  message = input('');
+
+  templateChange = output<string | null>();
+  saveTemplate = output<SheetTemplate>();
+  deleteTemplate = output<string>();
+  importFile = output<File>();
+  exportTemplates = output<void>();
+
+  selected = computed(() =>
+    [...this.builtInTemplates(), ...this.userTemplates()].find(template => template.id === this.selectedId()) ?? null);
+  isUserTemplate = computed(() => this.userTemplates().some(template => template.id === this.selectedId()));
+
+  // New template form, describing a regular label grid
+  isEditing = false;
+  draftName = '';
+  draftPaperWidthMm = 210;
+  draftPaperHeightMm = 297;
+  draftGrid: LabelGrid = this.defaultGrid();
+
+  select(id: string) {
+    this.templateChange.emit(id || null);
+  }
+
+  startEditing() {
+    this.draftName = '';
+    this.draftPaperWidthMm = this.paperWidthMm();
+    this.draftPaperHeightMm = this.paperHeightMm();
+    this.draftGrid = this.defaultGrid();
+    this.isEditing = true;
+  }
+
+  get draft(): SheetTemplate {
+    return {
+      id: '',
+      name: this.draftName.trim(),
+      paperWidthMm: this.draftPaperWidthMm,
+      paperHeightMm: this.draftPaperHeightMm,
+      slots: createGridSlots(this.draftGrid)
+    };
+  }
+
+  get draftProblem(): string | null {
+    return findTemplateProblem(this.draft);
+  }
+
+  save() {
+    if (!this.draftProblem) {
+      this.saveTemplate.emit(this.draft);
+      this.isEditing = false;
+    }
+  }
+
+  onFileSelected(event: Event) {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    if (file) {
+      this.importFile.emit(file);
+    }
+    // Allow selecting the same file again
+    fileInput.value = '';
+  }
+
+  private defaultGrid(): LabelGrid {
+    return { shape: 'round', widthMm: 40, heightMm: 40, columns: 4, rows: 6, leftMm: 10, topMm: 10, pitchXMm: 45, pitchYMm: 45 };
+  }
+}
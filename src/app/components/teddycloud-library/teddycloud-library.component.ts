@@ -0,0 +1,120 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TeddyCloudConnection, TeddyCloudCover, TeddyCloudCoverPick, TeddyCloudService } from '../../services/teddycloud.service';
+
+@Component({
+  selector: 'app-teddycloud-library',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './teddycloud-library.component.html',
+  styleUrl: './teddycloud-library.component.css'
+})
+export class TeddyCloudLibraryComponent {
+  // Stored connection settings (address and cookie option)
+  baseUrl = input('');
+  includeCredentials = input(false);
+
+  // Feedback from the app after a cover was assigned
+  status = input('');
+
+  connectionChange = output<{ baseUrl: string; includeCredentials: boolean }>();
+  coverPicked = output<TeddyCloudCoverPick>();
+  closed = output<void>();
+
+  private teddyCloudService = new TeddyCloudService();
+
+  // Number of covers rendered at once; the full library can hold thousands
+  private readonly PAGE_SIZE = 60;
+
+  // Connection form
+  serverUrl = '';
+  sendCookies = false;
+  username = '';
+  password = '';
+
+  // Library state
+  covers: TeddyCloudCover[] = [];
+  filteredCovers: TeddyCloudCover[] = [];
+  visibleCount = this.PAGE_SIZE;
+  searchQuery = '';
+  isLoading = false;
+  hasLoaded = false;
+  errorMessage = '';
+  loadingCoverId: string | null = null;
+
+  ngOnInit() {
+    this.serverUrl = this.baseUrl();
+    this.sendCookies = this.includeCredentials();
+
+    if (this.serverUrl) {
+      this.connect();
+    }
+  }
+
+  get visibleCovers(): TeddyCloudCover[] {
+    return this.filteredCovers.slice(0, this.visibleCount);
+  }
+
+  async connect(): Promise<void> {
+    this.serverUrl = this.teddyCloudService.normalizeBaseUrl(this.serverUrl);
+    this.connectionChange.emit({ baseUrl: this.serverUrl, includeCredentials: this.sendCookies });
+
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    try {
+      this.covers = await this.teddyCloudService.loadLibrary(this.getConnection());
+      this.hasLoaded = true;
+      this.onSearchChange();
+    } catch (error) {
+      console.warn('Failed to load TeddyCloud library:', error);
+      this.covers = [];
+      this.filteredCovers = [];
+      this.hasLoaded = false;
+      this.errorMessage = error instanceof Error ? error.message : 'Failed to load the TeddyCloud library.';
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  onSearchChange(): void {
+    this.filteredCovers = this.teddyCloudService.filterCovers(this.covers, this.searchQuery);
+    this.visibleCount = this.PAGE_SIZE;
+  }
+
+  showMore(): void {
+    this.visibleCount += this.PAGE_SIZE;
+  }
+
+  async pickCover(cover: TeddyCloudCover): Promise<void> {
+    if (this.loadingCoverId) {
+      return;
+    }
+
+    this.loadingCoverId = cover.id;
+    this.errorMessage = '';
+
+    try {
+      const file = await this.teddyCloudService.fetchCoverImage(this.getConnection(), cover);
+      this.coverPicked.emit({ cover, file });
+    } catch (error) {
+      console.warn('Failed to load TeddyCloud cover:', error);
+      this.errorMessage = error instanceof Error ? error.message : 'Failed to load the cover picture.';
+    } finally {
+      this.loadingCoverId = null;
+    }
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  private getConnection(): TeddyCloudConnection {
+    return {
+      baseUrl: this.serverUrl,
+      includeCredentials: this.sendCookies,
+      username: this.username,
+      password: this.password
+    };
+  }
+}
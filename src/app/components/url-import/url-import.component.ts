@@ -0,0 +1,25 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+@Component({
+  selector: 'app-url-import',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './url-import.component.html',
+  styleUrl: './url-import.component.css'
+})
+export class UrlImportComponent {
+  isLoading = input(false);
+  // Why the last address could not be loaded, set by the parent
+  error = input('');
+
+  load = output<string>();
+
+  address = '';
+
+  submit() {
+    if (this.address.trim() && !this.isLoading()) {
+      this.load.emit(this.address.trim());
+    }
+  }
+}
@@ -0,0 +1,29 @@
+// Per-channel input range stretched to 0-255 by auto levels
+export interface ChannelLevels {
+  low: [number, number, number];
+  high: [number, number, number];
+}
+
+// Applied when drawing, the stored image data always stays the original
+export interface ImageAdjustments {
+  // Percent, 100 = unchanged
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // Percent, 0 = unchanged
+  grayscale: number;
+  sepia: number;
+  autoLevels: boolean;
+  // Measured from the image when auto levels is switched on
+  levels: ChannelLevels | null;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  grayscale: 0,
+  sepia: 0,
+  autoLevels: false,
+  levels: null
+};
@@ -0,0 +1,59 @@
+import { SheetSlot } from './sheet.model';
+import { CoverCode } from './cover-code.model';
+
+// What is printed on the back of a cover
+export type CoverBackKind = 'image' | 'color' | 'text';
+
+// How the paper is turned over between the two sides, named like in printer dialogs
+export type DuplexFlip = 'long-edge' | 'short-edge';
+
+// Sides sent to the printer: both for duplex printers, one at a time for turning the stack by hand
+export type PrintSides = 'both' | 'fronts' | 'backs';
+
+// Double-sided settings of the document
+export interface DuplexOptions {
+  backSides: boolean;
+  flip: DuplexFlip;
+  printSides: PrintSides;
+}
+
+export interface CoverBack {
+  kind: CoverBackKind;
+  // Background of colour and text backs
+  color: string;
+  // Text of text backs; empty for the cover's title and TeddyCloud content name
+  text: string;
+  textColor: string;
+  // Picture of image backs, always filling the whole back
+  imageData: string | null;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export const DEFAULT_COVER_BACK: CoverBack = {
+  kind: 'text',
+  color: '#ffffff',
+  text: '',
+  textColor: '#000000',
+  imageData: null,
+  imageWidth: 0,
+  imageHeight: 0
+};
+
+// Text size of text backs, on screen and in the PDF (mm)
+export const BACK_TEXT_SIZE_MM = 3.5;
+
+// A cover's back as placed on the back sheet, already mirrored behind its front
+export interface BackSheetCover extends SheetSlot {
+  back: CoverBack | null;
+  // Resolved text of text backs
+  text: string;
+  // Code printed in the middle of the back
+  code: CoverCode | null;
+}
+
+// One printed sheet side in print order
+export interface PrintedSide {
+  pageIndex: number;
+  side: 'front' | 'back';
+}
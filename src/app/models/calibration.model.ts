@@ -0,0 +1,36 @@
+/**
+ * How a printer distorts its output, measured on the calibration sheet:
+ * printed position = requested position × scale + offset (mm from the top left paper corner)
+ */
+export interface PrinterCalibration {
+  scaleX: number;
+  scaleY: number;
+  offsetXMm: number;
+  offsetYMm: number;
+}
+
+// Calibration of one printer, saved under a name
+export interface CalibrationProfile extends PrinterCalibration {
+  id: string;
+  name: string;
+}
+
+export const NO_CALIBRATION: PrinterCalibration = {
+  scaleX: 1,
+  scaleY: 1,
+  offsetXMm: 0,
+  offsetYMm: 0
+};
+
+// What the user measures on the printed calibration sheet (mm)
+export interface CalibrationMeasurements {
+  // Printed length of the horizontal and vertical ruler
+  rulerXMm: number;
+  rulerYMm: number;
+  // Distance of the zero mark from the left and top paper edge
+  markXMm: number;
+  markYMm: number;
+}
+
+// The rulers of the calibration sheet start this far from the left and top paper edge (mm)
+export const CALIBRATION_MARK_MM = 10;
@@ -0,0 +1,40 @@
+// Where the caption is placed; 'curved' follows the edge of round covers
+export type CaptionPosition = 'top' | 'bottom' | 'curved';
+
+export interface CoverCaption {
+  title: string;
+  episode: string;
+  subtitle: string;
+  fontFamily: string;
+  // Title size; episode and subtitle use a smaller size
+  fontSizePt: number;
+  color: string;
+  outlineColor: string;
+  // 0 disables the outline
+  outlineWidthPt: number;
+  position: CaptionPosition;
+  // Background of the top/bottom band, null for none
+  bandColor: string | null;
+}
+
+export const CAPTION_FONTS = [
+  { label: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+  { label: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Comic Sans', value: '"Comic Sans MS", "Comic Sans", cursive' },
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Courier New', value: '"Courier New", monospace' }
+];
+
+export const DEFAULT_CAPTION: CoverCaption = {
+  title: '',
+  episode: '',
+  subtitle: '',
+  fontFamily: CAPTION_FONTS[0].value,
+  fontSizePt: 10,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidthPt: 0.75,
+  position: 'bottom',
+  bandColor: null
+};
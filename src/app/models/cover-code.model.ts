@@ -0,0 +1,57 @@
+// Machine-readable code printed on a cover
+export type CoverCodeKind = 'qr' | 'code128';
+
+// A corner of the cover, the whole cover, or the middle of its back side
+export type CoverCodePlacement = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'fill' | 'back';
+
+export interface CoverCode {
+  kind: CoverCodeKind;
+  // Link to the TeddyCloud content, the tag's UID or any other text
+  text: string;
+  placement: CoverCodePlacement;
+  // Width of the code including its quiet zone (mm); ignored when the code fills the cover
+  sizeMm: number;
+}
+
+export const DEFAULT_COVER_CODE: CoverCode = {
+  kind: 'qr',
+  text: '',
+  placement: 'bottom-right',
+  sizeMm: 14
+};
+
+// Dark modules of an encoded code; a barcode has a single row that is stretched to its bar height
+export interface CodeSymbol {
+  modules: boolean[][];
+  // Light modules required on every side
+  quietZone: number;
+}
+
+// Where a code is drawn, in mm relative to the cut area of the cover
+export interface CodeLayout {
+  // The light box including the quiet zone
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Width of one module, and the height of one module row (the bar height of barcodes)
+  moduleMm: number;
+  rowMm: number;
+  // Whether the whole box is inside the cut area
+  fits: boolean;
+}
+
+// Resolution the module size is checked against (the PDF export resolution)
+export const CODE_PRINT_DPI = 300;
+
+// Printer dots one module needs to come out sharp enough for a phone camera
+export const MIN_DOTS_PER_MODULE: Record<CoverCodeKind, number> = {
+  'qr': 4,
+  'code128': 3
+};
+
+// Distance of corner codes from the cut line (mm)
+export const CODE_INSET_MM = 1.5;
+
+// Height of Code 128 boxes relative to their width
+export const BARCODE_HEIGHT_RATIO = 0.35;
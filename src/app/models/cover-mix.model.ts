@@ -0,0 +1,45 @@
+import { PlaceholderShape } from './sheet.model';
+
+// A number of covers of one size in a mixed layout (mm; round covers use the width as diameter)
+export interface CoverGroup {
+  quantity: number;
+  shape: PlaceholderShape;
+  width: number;
+  height: number;
+}
+
+// More covers make the preview unusable
+export const MAX_MIXED_COVERS = 500;
+
+export const DEFAULT_COVER_MIX: CoverGroup[] = [
+  { quantity: 6, shape: 'rectangular', width: 45, height: 45 },
+  { quantity: 4, shape: 'round', width: 30, height: 30 }
+];
+
+/**
+ * Drop groups without covers or size, e.g. from damaged settings
+ */
+export function normalizeCoverMix(mix: unknown): CoverGroup[] {
+  if (!Array.isArray(mix)) {
+    return DEFAULT_COVER_MIX.map(group => ({ ...group }));
+  }
+
+  return mix
+    .filter(group => group && Number(group.quantity) > 0 && Number(group.width) > 0)
+    .map(group => {
+      const shape: PlaceholderShape = group.shape === 'round' ? 'round' : 'rectangular';
+      const width = Number(group.width);
+      return {
+        quantity: Math.floor(Number(group.quantity)),
+        shape,
+        width,
+        height: shape === 'round' ? width : Number(group.height) > 0 ? Number(group.height) : width
+      };
+    });
+}
+
+export function describeCoverGroup(group: CoverGroup): string {
+  return group.shape === 'round'
+    ? `${group.width}mm round`
+    : `${group.width}×${group.height}mm`;
+}
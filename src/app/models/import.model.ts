@@ -0,0 +1,26 @@
+// Where pictures go when all empty placeholders are filled
+export type ImportOverflow = 'pages' | 'tray';
+
+// Options of the batch import
+export interface ImportOptions {
+  sortByName: boolean;
+  overflow: ImportOverflow;
+}
+
+// A dropped or picked file that was not imported
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+// A picture waiting in the holding tray for a free placeholder
+export interface TrayImage {
+  id: number;
+  name: string;
+  imageData: string;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// Drag data type of pictures dragged out of the holding tray
+export const TRAY_DRAG_TYPE = 'application/x-cover-printer-tray';
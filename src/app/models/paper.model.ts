@@ -0,0 +1,25 @@
+// Paper sizes are defined upright (portrait); landscape swaps width and height
+export interface PaperSize {
+  // Stable ID stored in settings, never an array position
+  id: string;
+  label: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export const CUSTOM_PAPER_SIZE_ID = 'custom';
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'photo-10x15', label: '10×15 cm', widthMm: 100, heightMm: 150 },
+  { id: 'photo-13x18', label: '13×18 cm', widthMm: 130, heightMm: 180 },
+  { id: 'photo-9x13', label: '9×13 cm', widthMm: 89, heightMm: 127 },
+  { id: 'a6', label: 'A6', widthMm: 105, heightMm: 148 },
+  { id: 'a5', label: 'A5', widthMm: 148, heightMm: 210 },
+  { id: 'a4', label: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'letter', label: 'US Letter', widthMm: 215.9, heightMm: 279.4 }
+];
+
+// Order of the paper size list before sizes had IDs, used to migrate old settings
+export const LEGACY_PAPER_SIZE_IDS = ['photo-10x15', 'photo-13x18', 'a5', 'a4'];
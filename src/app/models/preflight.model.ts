@@ -0,0 +1,18 @@
+// Covers below this effective resolution get a warning badge (dots per inch)
+export const DEFAULT_MINIMUM_DPI = 200;
+
+export type PreflightIssueKind = 'layout' | 'empty' | 'low-resolution' | 'code' | 'whitespace';
+
+// What happens once the preflight check is passed or dismissed
+export type PreflightAction = 'print' | 'pdf';
+
+export interface PreflightIssue {
+  kind: PreflightIssueKind;
+  message: string;
+}
+
+export interface PreflightGroup {
+  kind: PreflightIssueKind;
+  title: string;
+  issues: PreflightIssue[];
+}
@@ -0,0 +1,133 @@
+import { CoverCaption } from './caption.model';
+import { DEFAULT_ADJUSTMENTS, ImageAdjustments } from './adjustments.model';
+import { CoverBack } from './back-side.model';
+import { CoverCode } from './cover-code.model';
+
+// Image content of a placeholder, independent of its position on the sheet
+export interface PlaceholderImage {
+  // Object URL of the full-resolution picture; a data URL in project files
+  imageData: string | null;
+  // Image position and zoom inside the placeholder (CSS pixels)
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  // Natural image size (pixels)
+  imageWidth: number;
+  imageHeight: number;
+  // Rotation around the image centre (degrees, clockwise) and mirroring
+  rotation: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  adjustments: ImageAdjustments;
+  // Optional text printed on top of the picture
+  caption: CoverCaption | null;
+  // Name of the TeddyCloud content the picture was picked for
+  contentName: string | null;
+  // What is printed behind the cover when printing double-sided, null for nothing
+  back: CoverBack | null;
+  // QR code or barcode printed on the cover or its back, null for none
+  code: CoverCode | null;
+}
+
+// Rotation and mirroring of a picture, as edited together
+export type ImageTransform = Pick<PlaceholderImage, 'rotation' | 'flipHorizontal' | 'flipVertical'>;
+
+// Drag data type of pictures moved between placeholders
+export const PLACEHOLDER_DRAG_TYPE = 'application/x-cover-printer-placeholder';
+
+export type PlaceholderShape = 'rectangular' | 'round';
+
+// Cut area of one cover on the sheet (mm); round slots are as high as they are wide
+export interface SheetSlot {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  shape: PlaceholderShape;
+}
+
+export interface PlaceholderState extends PlaceholderImage, SheetSlot {
+  id: number;
+  isDragOver?: boolean;
+  isDraggingImage?: boolean;
+}
+
+export interface SheetPage {
+  id: number;
+  placeholders: PlaceholderState[];
+}
+
+// Pictures of a document by linear slot index (page * slotsPerPage + slot)
+export interface ImageLayout {
+  slotsPerPage: number;
+  pageCount: number;
+  // Image area size the image offsets and scales refer to, including the bleed (mm).
+  // Used for pictures without their own size, stored before slots could differ in size.
+  placeholderWidthMm: number;
+  placeholderHeightMm: number;
+  // Missing in sessions stored before bleed was supported
+  bleedMm?: number;
+  images: {
+    index: number;
+    image: PlaceholderImage;
+    // Image area of the slot the picture was placed in (mm)
+    widthMm?: number;
+    heightMm?: number;
+  }[];
+}
+
+/**
+ * Copy the image content of a placeholder without its layout and UI state
+ */
+export function toPlaceholderImage(placeholder: PlaceholderImage): PlaceholderImage {
+  return {
+    imageData: placeholder.imageData,
+    offsetX: placeholder.offsetX,
+    offsetY: placeholder.offsetY,
+    scale: placeholder.scale,
+    imageWidth: placeholder.imageWidth,
+    imageHeight: placeholder.imageHeight,
+    rotation: placeholder.rotation ?? 0,
+    flipHorizontal: placeholder.flipHorizontal ?? false,
+    flipVertical: placeholder.flipVertical ?? false,
+    adjustments: copyAdjustments(placeholder.adjustments ?? DEFAULT_ADJUSTMENTS),
+    caption: placeholder.caption ? { ...placeholder.caption } : null,
+    contentName: placeholder.contentName ?? null,
+    back: placeholder.back ? { ...placeholder.back } : null,
+    code: placeholder.code ? { ...placeholder.code } : null
+  };
+}
+
+/**
+ * Image content of a placeholder without a picture
+ */
+export function createEmptyImage(): PlaceholderImage {
+  return {
+    imageData: null,
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+    imageWidth: 0,
+    imageHeight: 0,
+    rotation: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+    adjustments: { ...DEFAULT_ADJUSTMENTS },
+    caption: null,
+    contentName: null,
+    back: null,
+    code: null
+  };
+}
+
+/**
+ * Deep copy of image adjustments, so placeholders never share them
+ */
+export function copyAdjustments(adjustments: ImageAdjustments): ImageAdjustments {
+  return {
+    ...adjustments,
+    levels: adjustments.levels
+      ? { low: [...adjustments.levels.low], high: [...adjustments.levels.high] }
+      : null
+  };
+}
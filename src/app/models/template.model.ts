@@ -0,0 +1,122 @@
+import { PlaceholderShape, SheetSlot } from './sheet.model';
+
+// Pre-cut label sheet: a fixed paper size with fixed label positions.
+// Paper and slots are given as printed, so landscape sheets are simply wider than high.
+export interface SheetTemplate {
+  id: string;
+  name: string;
+  paperWidthMm: number;
+  paperHeightMm: number;
+  slots: SheetSlot[];
+}
+
+// Regular label arrangement as printed on the packaging of most label sheets
+export interface LabelGrid {
+  shape: PlaceholderShape;
+  widthMm: number;
+  heightMm: number;
+  columns: number;
+  rows: number;
+  // Position of the top left label
+  leftMm: number;
+  topMm: number;
+  // Distance from one label to the start of the next (label size plus gap)
+  pitchXMm: number;
+  pitchYMm: number;
+}
+
+// More slots make the preview unusable and are certainly a broken file
+export const MAX_TEMPLATE_SLOTS = 500;
+
+/**
+ * Slots of a regular label grid, row by row
+ */
+export function createGridSlots(grid: LabelGrid): SheetSlot[] {
+  const height = grid.shape === 'round' ? grid.widthMm : grid.heightMm;
+  const slots: SheetSlot[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.columns; col++) {
+      slots.push({
+        left: round(grid.leftMm + col * grid.pitchXMm),
+        top: round(grid.topMm + row * grid.pitchYMm),
+        width: grid.widthMm,
+        height,
+        shape: grid.shape
+      });
+    }
+  }
+  return slots;
+}
+
+/**
+ * Describe the first reason a template cannot be printed, or null if it is usable
+ */
+export function findTemplateProblem(template: SheetTemplate): string | null {
+  const { paperWidthMm, paperHeightMm, slots } = template;
+
+  if (!template.name.trim()) {
+    return 'The template needs a name.';
+  }
+  if (!(paperWidthMm > 0) || !(paperHeightMm > 0)) {
+    return 'The paper size must be larger than 0 mm.';
+  }
+  if (slots.length === 0) {
+    return 'The template has no labels.';
+  }
+  if (slots.length > MAX_TEMPLATE_SLOTS) {
+    return `The template has ${slots.length} labels, at most ${MAX_TEMPLATE_SLOTS} are supported.`;
+  }
+
+  // Rounding of label positions must not count as an overlap
+  const tolerance = 0.01;
+
+  for (const [index, slot] of slots.entries()) {
+    const label = `Label ${index + 1}`;
+    if (!(slot.width > 0) || !(slot.height > 0)) {
+      return `${label} must be larger than 0 mm.`;
+    }
+    if (slot.left < -tolerance || slot.top < -tolerance ||
+        slot.left + slot.width > paperWidthMm + tolerance ||
+        slot.top + slot.height > paperHeightMm + tolerance) {
+      return `${label} lies outside the ${paperWidthMm}×${paperHeightMm}mm paper.`;
+    }
+
+    const overlapping = slots.findIndex((other, otherIndex) => otherIndex > index &&
+      slot.left + slot.width > other.left + tolerance && other.left + other.width > slot.left + tolerance &&
+      slot.top + slot.height > other.top + tolerance && other.top + other.height > slot.top + tolerance);
+    if (overlapping >= 0) {
+      return `${label} overlaps label ${overlapping + 1}.`;
+    }
+  }
+
+  return null;
+}
+
+// Positions in 1/100 mm avoid floating point noise in exported templates
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function gridTemplate(id: string, name: string, grid: LabelGrid): SheetTemplate {
+  return { id, name, paperWidthMm: 210, paperHeightMm: 297, slots: createGridSlots(grid) };
+}
+
+// Common A4 tag label layouts. Manufacturers differ by fractions of a millimetre,
+// so a test print on plain paper held against the label sheet is recommended.
+export const SHEET_TEMPLATES: SheetTemplate[] = [
+  gridTemplate('a4-round-30', 'A4 · Round 30 mm · 48 labels', {
+    shape: 'round', widthMm: 30, heightMm: 30, columns: 6, rows: 8, leftMm: 7.5, topMm: 11, pitchXMm: 33, pitchYMm: 35
+  }),
+  gridTemplate('a4-round-40', 'A4 · Round 40 mm · 24 labels', {
+    shape: 'round', widthMm: 40, heightMm: 40, columns: 4, rows: 6, leftMm: 14.5, topMm: 13.5, pitchXMm: 47, pitchYMm: 46
+  }),
+  gridTemplate('a4-round-60', 'A4 · Round 60 mm · 12 labels', {
+    shape: 'round', widthMm: 60, heightMm: 60, columns: 3, rows: 4, leftMm: 10, topMm: 13.5, pitchXMm: 65, pitchYMm: 70
+  }),
+  gridTemplate('a4-square-35', 'A4 · Square 35 mm · 35 labels', {
+    shape: 'rectangular', widthMm: 35, heightMm: 35, columns: 5, rows: 7, leftMm: 12, topMm: 14, pitchXMm: 38, pitchYMm: 38.5
+  }),
+  gridTemplate('a4-square-45', 'A4 · Square 45 mm · 24 labels', {
+    shape: 'rectangular', widthMm: 45, heightMm: 45, columns: 4, rows: 6, leftMm: 10.5, topMm: 8.5, pitchXMm: 48, pitchYMm: 47
+  })
+];
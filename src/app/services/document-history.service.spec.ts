@@ -0,0 +1,82 @@
+import { DocumentHistoryService, HistoryState } from './document-history.service';
+import { StorageService } from './storage.service';
+import { createEmptyImage } from '../models/sheet.model';
+
+describe('DocumentHistoryService', () => {
+  const defaults = new StorageService().mergeWithDefaults({});
+  let history: DocumentHistoryService;
+  let edited: HistoryState;
+
+  const capture = () => ({ settings: { ...edited.settings }, layout: { ...edited.layout, images: [...edited.layout.images] } });
+  const restore = (state: HistoryState) => {
+    edited = state;
+    // Changes made while restoring don't become steps of their own
+    history.scheduleStep(capture);
+  };
+  const afterHandler = () => new Promise<void>(resolve => queueMicrotask(resolve));
+  const withPicture = (imageData: string) => ({
+    ...edited.layout,
+    images: [{ index: 0, image: { ...createEmptyImage(), imageData } }]
+  });
+
+  beforeEach(() => {
+    history = new DocumentHistoryService();
+    edited = {
+      settings: { ...defaults },
+      layout: { slotsPerPage: 4, pageCount: 1, placeholderWidthMm: 44, placeholderHeightMm: 44, images: [] }
+    };
+    history.reset(capture());
+  });
+
+  it('should record the changes of one action as a single step', async () => {
+    edited.settings.margins = 8;
+    history.scheduleStep(capture);
+    edited.layout = withPicture('blob:cover');
+    history.scheduleStep(capture);
+    await afterHandler();
+
+    expect(history.canUndo).toBeTrue();
+    history.undo(capture, restore);
+
+    expect(edited.settings.margins).toBe(defaults.margins);
+    expect(edited.layout.images.length).toBe(0);
+    expect(history.canUndo).toBeFalse();
+    expect(history.canRedo).toBeTrue();
+  });
+
+  it('should not record actions that changed nothing', async () => {
+    history.scheduleStep(capture);
+    await afterHandler();
+
+    expect(history.canUndo).toBeFalse();
+  });
+
+  it('should redo an undone step', async () => {
+    edited.layout = withPicture('blob:cover');
+    history.scheduleStep(capture);
+    await afterHandler();
+
+    history.undo(capture, restore);
+    history.redo(capture, restore);
+    await afterHandler();
+
+    expect(edited.layout.images[0].image.imageData).toBe('blob:cover');
+    expect(history.canUndo).toBeTrue();
+    expect(history.canRedo).toBeFalse();
+  });
+
+  it('should list the pictures of all reachable states', async () => {
+    edited.layout = withPicture('blob:first');
+    history.scheduleStep(capture);
+    await afterHandler();
+    edited.layout = withPicture('blob:second');
+    history.scheduleStep(capture);
+    await afterHandler();
+
+    const pictures = history.states.flatMap(state => state.layout.images.map(entry => entry.image.imageData));
+    expect(pictures).toEqual(['blob:second', 'blob:first']);
+
+    history.reset(capture());
+    expect(history.states.length).toBe(1);
+  });
+});
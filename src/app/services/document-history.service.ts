@@ -0,0 +1,123 @@
+import { Injectable } from '@angular/core';
+import { AppSettings } from './storage.service';
+import { ImageLayout } from '../models/sheet.model';
+import { UndoHistory } from '../utils/undo-history';
+
+// Document state restored by undo and redo
+export interface HistoryState {
+  settings: AppSettings;
+  layout: ImageLayout;
+}
+
+/**
+ * Undo and redo of picture edits and settings.
+ * The last recorded state is the base of the next step; the app captures and restores the document.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentHistoryService {
+  private history = new UndoHistory<HistoryState>();
+  private current: HistoryState | null = null;
+  private stepScheduled = false;
+  private mergeKey: string | null = null;
+  private isRestoring = false;
+
+  get canUndo(): boolean {
+    return this.history.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this.history.canRedo;
+  }
+
+  // The current state and all states that undo or redo can return to
+  get states(): HistoryState[] {
+    return this.current ? [this.current, ...this.history.states] : this.history.states;
+  }
+
+  /**
+   * Start a new history with the given document, e.g. after opening a project
+   */
+  reset(state: HistoryState): void {
+    this.history.clear();
+    this.current = state;
+  }
+
+  /**
+   * Record the changes of the current action as one undo step.
+   * Runs after the event handler, so the settings and the pages changed by one action form a single step;
+   * the first call of an action decides how the document is captured and what follows the step.
+   */
+  scheduleStep(capture: () => HistoryState, mergeKey: string | null = null, afterStep: () => void = () => undefined): void {
+    if (this.isRestoring) {
+      return;
+    }
+
+    this.mergeKey ??= mergeKey;
+    if (this.stepScheduled) {
+      return;
+    }
+
+    this.stepScheduled = true;
+    queueMicrotask(() => {
+      const key = this.mergeKey;
+      this.stepScheduled = false;
+      this.mergeKey = null;
+
+      const state = capture();
+      if (this.current && !isSameHistoryState(this.current, state)) {
+        this.history.record(this.current, key);
+      }
+      this.current = state;
+      afterStep();
+    });
+  }
+
+  /**
+   * Step back to the previous state; restoring it doesn't record a new step
+   */
+  undo(capture: () => HistoryState, restore: (state: HistoryState) => void): void {
+    const previous = this.history.undo(capture());
+    if (previous) {
+      this.restore(previous, capture, restore);
+    }
+  }
+
+  /**
+   * Step forward again after undo
+   */
+  redo(capture: () => HistoryState, restore: (state: HistoryState) => void): void {
+    const next = this.history.redo(capture());
+    if (next) {
+      this.restore(next, capture, restore);
+    }
+  }
+
+  private restore(state: HistoryState, capture: () => HistoryState, restore: (state: HistoryState) => void): void {
+    this.isRestoring = true;
+    try {
+      restore(state);
+    } finally {
+      this.isRestoring = false;
+    }
+    this.current = capture();
+  }
+}
+
+// Image data is compared by reference, everything else by value
+function isSameHistoryState(a: HistoryState, b: HistoryState): boolean {
+  const withoutImageData = (layout: ImageLayout) => JSON.stringify({
+    ...layout,
+    images: layout.images.map(entry => ({
+      ...entry,
+      image: { ...entry.image, imageData: null, back: entry.image.back && { ...entry.image.back, imageData: null } }
+    }))
+  });
+
+  return JSON.stringify(a.settings) === JSON.stringify(b.settings) &&
+    a.layout.images.length === b.layout.images.length &&
+    a.layout.images.every((entry, index) => entry.image.imageData === b.layout.images[index].image.imageData &&
+      entry.image.back?.imageData === b.layout.images[index].image.back?.imageData) &&
+    withoutImageData(a.layout) === withoutImageData(b.layout);
+}
@@ -0,0 +1,86 @@
+import { ImportService, ImportTarget } from './import.service';
+import { releaseUnusedImages } from '../utils/image-file';
+
+describe('ImportService', () => {
+  let service: ImportService;
+
+  const createPicture = (name: string): Promise<File> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 4;
+    canvas.height = 3;
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(new File([blob], name, { type: 'image/png' })) : reject(new Error('No picture')),
+      'image/png'
+    ));
+  };
+
+  // A document with a number of empty placeholders that never grows
+  const createTarget = (room: number): ImportTarget & { placed: string[] } => {
+    const placed: string[] = [];
+    return {
+      placed,
+      place: async image => {
+        if (placed.length >= room) {
+          return false;
+        }
+        placed.push(image.imageData);
+        return true;
+      },
+      pageCount: () => 1
+    };
+  };
+
+  beforeEach(() => service = new ImportService());
+
+  afterEach(() => releaseUnusedImages(new Set()));
+
+  it('should put pictures without room into the holding tray', async () => {
+    const target = createTarget(1);
+
+    const placed = await service.importFiles([await createPicture('a.png'), await createPicture('b.png')], false, target);
+
+    expect(placed).toBe(1);
+    expect(target.placed.length).toBe(1);
+    expect(service.tray.map(image => image.name)).toEqual(['b.png']);
+    expect(service.tray[0].imageWidth).toBe(4);
+    expect(service.message).toBe('Imported 1 picture, 1 waits in the holding tray.');
+    expect(service.isImporting).toBeFalse();
+  });
+
+  it('should list files that are not pictures', async () => {
+    const notes = new File(['notes'], 'notes.txt', { type: 'text/plain' });
+
+    const placed = await service.importFiles([notes], false, createTarget(4));
+
+    expect(placed).toBe(0);
+    expect(service.rejected).toEqual([{ name: 'notes.txt', reason: 'Not an image (text/plain)' }]);
+    expect(service.message).toBe('No pictures were imported.');
+  });
+
+  it('should add imports that arrive while one runs to its result', async () => {
+    const target = createTarget(4);
+    const first = service.importFiles([await createPicture('a.png')], false, target);
+    const second = service.importFiles([new File([''], 'empty.png', { type: 'image/png' })], false, target);
+
+    expect(service.isImporting).toBeTrue();
+    await Promise.all([first, second]);
+
+    expect(service.isImporting).toBeFalse();
+    expect(service.rejected).toEqual([{ name: 'empty.png', reason: 'The file is empty' }]);
+    expect(service.message).toBe('Imported 1 picture. No pictures were imported.');
+  });
+
+  it('should take pictures out of the tray', async () => {
+    await service.importFiles(
+      [await createPicture('a.png'), await createPicture('b.png'), await createPicture('c.png')],
+      false,
+      createTarget(0)
+    );
+    const [a, b, c] = service.tray;
+
+    expect(service.takeFromTray(b.id)).toBe(b);
+    expect(service.takeFromTray(b.id)).toBeNull();
+    expect(service.takeFirstFromTray(5)).toEqual([a, c]);
+    expect(service.tray).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable } from '@angular/core';
+import { RejectedFile, TrayImage } from '../models/import.model';
+import { selectImportFiles } from '../utils/batch-import';
+import { LoadedImage, readImageFile } from '../utils/image-file';
+
+// Where an import puts its pictures; the app owns the pages and placeholders
+export interface ImportTarget {
+  // Put a picture into the next empty placeholder, adding a page if allowed; false when there is no room
+  place(image: LoadedImage): Promise<boolean>;
+  pageCount(): number;
+}
+
+/**
+ * Batch import of many pictures and the holding tray for pictures without a free placeholder.
+ * Imports run one after another; files dropped, pasted or loaded during an import wait for it
+ * and add to its result.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImportService {
+  isImporting = false;
+  message = '';
+  rejected: RejectedFile[] = [];
+
+  // Imported pictures without a free placeholder, placed later by dragging them onto one
+  tray: TrayImage[] = [];
+  private nextTrayId = 0;
+
+  private queue: Promise<void> = Promise.resolve();
+  private pendingImports = 0;
+
+  /**
+   * Import the pictures among the files in order, or by name when sortByName is set.
+   * Pictures the target has no room for go into the holding tray, files that aren't pictures are listed with a reason.
+   * Resolves with the number of pictures placed.
+   */
+  importFiles(files: File[], sortByName: boolean, target: ImportTarget): Promise<number> {
+    const queued = this.pendingImports > 0;
+    this.pendingImports++;
+    this.isImporting = true;
+
+    const run = this.queue
+      .then(() => this.runImport(files, sortByName, target, queued))
+      .finally(() => {
+        this.pendingImports--;
+        this.isImporting = this.pendingImports > 0;
+      });
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Take a picture out of the tray to place it, or null if it is gone
+   */
+  takeFromTray(id: number): TrayImage | null {
+    const image = this.tray.find(item => item.id === id) ?? null;
+    this.tray = this.tray.filter(item => item !== image);
+    return image;
+  }
+
+  /**
+   * Take the first pictures out of the tray, at most the given number
+   */
+  takeFirstFromTray(count: number): TrayImage[] {
+    const images = this.tray.slice(0, count);
+    this.tray = this.tray.slice(images.length);
+    return images;
+  }
+
+  removeFromTray(id: number): void {
+    this.tray = this.tray.filter(item => item.id !== id);
+  }
+
+  clearTray(): void {
+    this.tray = [];
+  }
+
+  private async runImport(files: File[], sortByName: boolean, target: ImportTarget, queued: boolean): Promise<number> {
+    const { images, rejected } = selectImportFiles(files, sortByName);
+    const earlierRejected = queued ? this.rejected : [];
+    const earlierMessage = queued ? this.message : '';
+    this.rejected = [...earlierRejected, ...rejected];
+    this.message = earlierMessage;
+
+    let placed = 0;
+    let trayed = 0;
+    const pageCount = target.pageCount();
+
+    // One file at a time keeps the memory use low for large selections
+    for (const file of images) {
+      let image: LoadedImage;
+      try {
+        image = await readImageFile(file);
+      } catch (error) {
+        rejected.push({ name: file.name, reason: error instanceof Error ? error.message : 'The file could not be read' });
+        continue;
+      }
+
+      if (await target.place(image)) {
+        placed++;
+      } else {
+        this.tray.push({ id: this.nextTrayId++, name: file.name, ...image });
+        trayed++;
+      }
+    }
+
+    this.rejected = [...earlierRejected, ...rejected];
+    this.message = [earlierMessage, describeImport(placed, Math.max(0, target.pageCount() - pageCount), trayed)].filter(Boolean).join(' ');
+    return placed;
+  }
+}
+
+function describeImport(placed: number, pagesAdded: number, trayed: number): string {
+  if (placed === 0 && trayed === 0) {
+    return 'No pictures were imported.';
+  }
+
+  const parts = [`Imported ${placed} ${placed === 1 ? 'picture' : 'pictures'}`];
+  if (pagesAdded > 0) {
+    parts.push(`added ${pagesAdded} ${pagesAdded === 1 ? 'page' : 'pages'}`);
+  }
+  if (trayed > 0) {
+    parts.push(`${trayed} ${trayed === 1 ? 'waits' : 'wait'} in the holding tray`);
+  }
+  return parts.join(', ') + '.';
+}
@@ -0,0 +1,312 @@
+import { Injectable } from '@angular/core';
+import { PlaceholderState, SheetPage, SheetSlot } from '../models/sheet.model';
+import { PdfDocument, PdfPageContent } from '../utils/pdf-document';
+import { createCanvasTextMeasurer, drawCaption, hasCaptionText, layoutCaption } from '../utils/caption-layout';
+import { applyLevels, buildFilter } from '../utils/image-adjustments';
+import { PrinterCalibration } from '../models/calibration.model';
+import { calibrationCorrection, isCalibrated } from '../utils/calibration';
+import { BACK_TEXT_SIZE_MM, BackSheetCover, PrintSides } from '../models/back-side.model';
+import { printSequence } from '../utils/duplex';
+import { clipImageArea, drawCode, drawCuttingGuides } from '../utils/pdf-sheet';
+import { CSS_PX_PER_MM } from '../utils/sheet-layout';
+
+export interface SheetExportOptions {
+  paperWidthMm: number;
+  paperHeightMm: number;
+  // The image extends this far beyond the cut line (mm)
+  bleedMm: number;
+  showCropMarks: boolean;
+  showCropLines: boolean;
+  // Correction for the printer the PDF is meant for
+  calibration: PrinterCalibration;
+  pages: SheetPage[];
+  // Mirrored backs of every page, null without back sides
+  backPages: BackSheetCover[][] | null;
+  printSides: PrintSides;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PdfExportService {
+  // Output resolution of the rasterized covers
+  private readonly EXPORT_DPI = 300;
+
+  private readonly JPEG_QUALITY = 0.92;
+
+  /**
+   * Render all pages into a PDF whose page size matches the paper exactly.
+   * With back sides, every front is followed by its back, or only one of them is exported.
+   */
+  async exportSheets(options: SheetExportOptions): Promise<Blob> {
+    const pdf = new PdfDocument();
+
+    for (const printed of printSequence(options.pages.length, options.backPages !== null, options.printSides)) {
+      const content = pdf.addPage(options.paperWidthMm, options.paperHeightMm);
+      if (isCalibrated(options.calibration)) {
+        const correction = calibrationCorrection(options.calibration);
+        content.transform(correction.scaleX, correction.scaleY, correction.translateXMm, correction.translateYMm);
+      }
+
+      if (printed.side === 'back') {
+        for (const cover of options.backPages?.[printed.pageIndex] ?? []) {
+          await this.drawBack(pdf, content, cover, options);
+        }
+        continue;
+      }
+
+      const page = options.pages[printed.pageIndex];
+      for (const placeholder of page.placeholders) {
+        if (placeholder.imageData && placeholder.imageWidth && placeholder.imageHeight) {
+          await this.drawCover(pdf, content, placeholder, options);
+        }
+      }
+
+      // Cutting guides go on top of the images, for empty slots as well
+      page.placeholders.forEach(placeholder => drawCuttingGuides(content, placeholder, options));
+    }
+
+    return new Blob([pdf.toBytes()], { type: 'application/pdf' });
+  }
+
+  private async drawCover(
+    pdf: PdfDocument,
+    content: PdfPageContent,
+    placeholder: PlaceholderState,
+    options: SheetExportOptions
+  ): Promise<void> {
+    // The image covers the cut area plus the bleed on every side
+    const bleed = options.bleedMm;
+    const x = placeholder.left - bleed;
+    const y = placeholder.top - bleed;
+    const widthMm = placeholder.width + 2 * bleed;
+    const heightMm = placeholder.height + 2 * bleed;
+
+    const jpeg = await this.rasterizeCover(placeholder, widthMm, heightMm, options);
+    const imageName = pdf.addJpeg(jpeg.bytes, jpeg.widthPx, jpeg.heightPx);
+
+    clipImageArea(content, placeholder, bleed);
+    content.image(imageName, x, y, widthMm, heightMm);
+    if (placeholder.code && placeholder.code.placement !== 'back') {
+      drawCode(content, placeholder.code, placeholder);
+    }
+    content.restore();
+  }
+
+  /**
+   * Draw the visible part of a placeholder image at export resolution,
+   * using the same offset and scale as the on-screen preview.
+   * The size is the image area, i.e. the cut area plus the bleed.
+   */
+  private async rasterizeCover(
+    placeholder: PlaceholderState,
+    widthMm: number,
+    heightMm: number,
+    options: SheetExportOptions
+  ): Promise<{ bytes: Uint8Array; widthPx: number; heightPx: number }> {
+    const image = await this.loadImage(placeholder.imageData as string);
+
+    const widthPx = Math.round(widthMm / 25.4 * this.EXPORT_DPI);
+    const heightPx = Math.round(heightMm / 25.4 * this.EXPORT_DPI);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = widthPx;
+    canvas.height = heightPx;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    // Paper white behind the image, visible where whitespace is allowed
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, widthPx, heightPx);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    // Map CSS pixels of the preview to canvas pixels
+    const cssToCanvas = widthPx / (widthMm * CSS_PX_PER_MM);
+    ctx.scale(cssToCanvas, cssToCanvas);
+
+    // Same transform as the preview: rotation and flips turn around the image centre
+    const scaledWidth = placeholder.imageWidth * placeholder.scale;
+    const scaledHeight = placeholder.imageHeight * placeholder.scale;
+    ctx.translate(placeholder.offsetX + scaledWidth / 2, placeholder.offsetY + scaledHeight / 2);
+    ctx.rotate((placeholder.rotation || 0) * Math.PI / 180);
+    ctx.scale(placeholder.flipHorizontal ? -1 : 1, placeholder.flipVertical ? -1 : 1);
+    ctx.filter = buildFilter(placeholder.adjustments) || 'none';
+    ctx.drawImage(this.applyAutoLevels(image, placeholder), -scaledWidth / 2, -scaledHeight / 2, scaledWidth, scaledHeight);
+    ctx.filter = 'none';
+
+    if (hasCaptionText(placeholder.caption)) {
+      const bleed = options.bleedMm;
+      const layout = layoutCaption(
+        placeholder.caption,
+        widthMm - 2 * bleed,
+        heightMm - 2 * bleed,
+        placeholder.shape,
+        createCanvasTextMeasurer(),
+        bleed
+      );
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      drawCaption(ctx, layout, placeholder.caption, widthPx / widthMm);
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', this.JPEG_QUALITY));
+    if (!blob) {
+      throw new Error('Failed to encode cover image');
+    }
+
+    return {
+      bytes: new Uint8Array(await blob.arrayBuffer()),
+      widthPx,
+      heightPx
+    };
+  }
+
+  private async drawBack(
+    pdf: PdfDocument,
+    content: PdfPageContent,
+    cover: BackSheetCover,
+    options: SheetExportOptions
+  ): Promise<void> {
+    if (!cover.back && !cover.code) {
+      return;
+    }
+
+    // Like the front, the back covers the cut area plus the bleed
+    const bleed = options.bleedMm;
+    const x = cover.left - bleed;
+    const y = cover.top - bleed;
+    const widthMm = cover.width + 2 * bleed;
+    const heightMm = cover.height + 2 * bleed;
+
+    clipImageArea(content, cover, bleed);
+    if (cover.back) {
+      const jpeg = await this.rasterizeBack(cover, widthMm, heightMm, bleed);
+      content.image(pdf.addJpeg(jpeg.bytes, jpeg.widthPx, jpeg.heightPx), x, y, widthMm, heightMm);
+    }
+    if (cover.code) {
+      drawCode(content, cover.code, cover);
+    }
+    content.restore();
+  }
+
+  /**
+   * Draw a back like the back sheet preview: a colour, a picture filling the area, or centred text
+   */
+  private async rasterizeBack(
+    cover: BackSheetCover,
+    widthMm: number,
+    heightMm: number,
+    bleedMm: number
+  ): Promise<{ bytes: Uint8Array; widthPx: number; heightPx: number }> {
+    const back = cover.back!;
+    const widthPx = Math.round(widthMm / 25.4 * this.EXPORT_DPI);
+    const heightPx = Math.round(heightMm / 25.4 * this.EXPORT_DPI);
+    const pxPerMm = widthPx / widthMm;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = widthPx;
+    canvas.height = heightPx;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    ctx.fillStyle = back.kind === 'image' ? '#ffffff' : back.color;
+    ctx.fillRect(0, 0, widthPx, heightPx);
+
+    if (back.kind === 'image' && back.imageData) {
+      // Cover fit, like object-fit: cover in the preview
+      const image = await this.loadImage(back.imageData);
+      const scale = Math.max(widthPx / image.naturalWidth, heightPx / image.naturalHeight);
+      const drawWidth = image.naturalWidth * scale;
+      const drawHeight = image.naturalHeight * scale;
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, (widthPx - drawWidth) / 2, (heightPx - drawHeight) / 2, drawWidth, drawHeight);
+    }
+
+    if (back.kind === 'text' && cover.text) {
+      // Same padding as the .back-text preview: inside the cut area, and away from the curve of round covers
+      const padding = bleedMm + (cover.shape === 'round' ? cover.width * 0.15 : 2);
+      const fontSizePx = BACK_TEXT_SIZE_MM * pxPerMm;
+      const lineHeightPx = fontSizePx * 1.2;
+      ctx.font = `600 ${fontSizePx}px Arial, Helvetica, sans-serif`;
+      ctx.fillStyle = back.textColor;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+
+      const lines = this.wrapText(ctx, cover.text, (widthMm - 2 * padding) * pxPerMm);
+      const top = heightPx / 2 - (lines.length - 1) * lineHeightPx / 2;
+      lines.forEach((line, index) => ctx.fillText(line, widthPx / 2, top + index * lineHeightPx));
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', this.JPEG_QUALITY));
+    if (!blob) {
+      throw new Error('Failed to encode back image');
+    }
+
+    return {
+      bytes: new Uint8Array(await blob.arrayBuffer()),
+      widthPx,
+      heightPx
+    };
+  }
+
+  /**
+   * Break text into lines of at most the given width, keeping its own line breaks
+   */
+  private wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidthPx: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(word => word)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidthPx) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Auto levels run on the pixels of the original image, before the other adjustments like in the preview
+   */
+  private applyAutoLevels(image: HTMLImageElement, placeholder: PlaceholderState): CanvasImageSource {
+    const levels = placeholder.adjustments.autoLevels ? placeholder.adjustments.levels : null;
+    if (!levels) {
+      return image;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    ctx.drawImage(image, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyLevels(pixels.data, levels);
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }
+
+  private loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Failed to load image for export'));
+      image.src = src;
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import { ProjectFileService } from './project-file.service';
+import { AppSettings } from './storage.service';
+import { SheetPage } from '../models/sheet.model';
+import { DEFAULT_CAPTION } from '../models/caption.model';
+import { DEFAULT_ADJUSTMENTS } from '../models/adjustments.model';
+import { DEFAULT_COVER_BACK } from '../models/back-side.model';
+import { DEFAULT_COVER_CODE } from '../models/cover-code.model';
+
+describe('ProjectFileService', () => {
+  const service = new ProjectFileService();
+
+  const settings: AppSettings = {
+    paperSizeId: 'photo-13x18',
+    paperWidthMm: 130,
+    paperHeightMm: 180,
+    paperOrientation: 'landscape',
+    pictureWidth: 40,
+    pictureHeight: 40,
+    margins: 4,
+    spacing: 2,
+    bleed: 1,
+    allowWhitespace: false,
+    smartFraming: true,
+    minimumDpi: 250,
+    calibrationProfileId: null,
+    backSides: true,
+    duplexFlip: 'short-edge',
+    printSides: 'both',
+    showCropMarks: true,
+    isDarkMode: false,
+    placeholderShape: 'round',
+    hexPacking: true,
+    sheetTemplateId: null,
+    mixedSizes: false,
+    coverMix: [{ quantity: 2, shape: 'round', width: 30, height: 30 }],
+    importSortByName: true,
+    importOverflow: 'tray',
+    teddyCloudUrl: '',
+    teddyCloudIncludeCredentials: false
+  };
+
+  const pages: SheetPage[] = [{
+    id: 0,
+    placeholders: [{
+      id: 0,
+      imageData: 'data:image/png;base64,AAAA',
+      offsetX: -12,
+      offsetY: 3,
+      scale: 0.5,
+      imageWidth: 800,
+      imageHeight: 600,
+      rotation: 90,
+      flipHorizontal: true,
+      flipVertical: false,
+      adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 120, autoLevels: true, levels: { low: [10, 12, 8], high: [240, 250, 245] } },
+      caption: { ...DEFAULT_CAPTION, title: 'Benjamin Blümchen', episode: '12', position: 'curved' },
+      contentName: 'Benjamin Blümchen - Das Zoojubiläum',
+      back: { ...DEFAULT_COVER_BACK, kind: 'text', color: '#fde68a', text: 'For Mia' },
+      code: { ...DEFAULT_COVER_CODE, text: 'E0:04:03:50:0E:12:34:56', placement: 'back' },
+      left: 4,
+      top: 4,
+      width: 40,
+      height: 40,
+      shape: 'round',
+      isDragOver: true
+    }]
+  }];
+
+  const toFile = (content: BlobPart, name = 'cover-project.json') => new File([content], name, { type: 'application/json' });
+
+  it('should restore settings and placeholders from a saved project', async () => {
+    const blob = await service.createProject(settings, pages);
+    const project = await service.readProject(toFile(blob));
+
+    expect(project.version).toBe(service.VERSION);
+    expect(project.settings).toEqual(settings);
+    expect(project.pages[0].placeholders[0]).toEqual({
+      imageData: 'data:image/png;base64,AAAA',
+      offsetX: -12,
+      offsetY: 3,
+      scale: 0.5,
+      imageWidth: 800,
+      imageHeight: 600,
+      rotation: 90,
+      flipHorizontal: true,
+      flipVertical: false,
+      adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 120, autoLevels: true, levels: { low: [10, 12, 8], high: [240, 250, 245] } },
+      caption: { ...DEFAULT_CAPTION, title: 'Benjamin Blümchen', episode: '12', position: 'curved' },
+      contentName: 'Benjamin Blümchen - Das Zoojubiläum',
+      back: { ...DEFAULT_COVER_BACK, kind: 'text', color: '#fde68a', text: 'For Mia' },
+      code: { ...DEFAULT_COVER_CODE, text: 'E0:04:03:50:0E:12:34:56', placement: 'back' }
+    });
+  });
+
+  it('should leave out damaged settings so they fall back to the defaults', async () => {
+    const content = JSON.stringify({
+      format: service.FORMAT,
+      version: service.VERSION,
+      settings: { ...settings, pictureWidth: 'abc', margins: -3, paperOrientation: 'diagonal', hexPacking: 'yes', sheetTemplateId: 7 },
+      pages: []
+    });
+    const project = await service.readProject(toFile(content));
+
+    expect(project.settings.pictureHeight).toBe(40);
+    expect(project.settings.placeholderShape).toBe('round');
+    expect('pictureWidth' in project.settings).toBeFalse();
+    expect('margins' in project.settings).toBeFalse();
+    expect('paperOrientation' in project.settings).toBeFalse();
+    expect('hexPacking' in project.settings).toBeFalse();
+    expect('sheetTemplateId' in project.settings).toBeFalse();
+  });
+
+  it('should carry a user-defined label sheet template', async () => {
+    const template = {
+      id: 'template-1',
+      name: 'Stickers',
+      paperWidthMm: 100,
+      paperHeightMm: 150,
+      slots: [{ left: 4, top: 4, width: 40, height: 40, shape: 'round' as const }]
+    };
+
+    const project = await service.readProject(toFile(await service.createProject(settings, pages, template)));
+    expect(project.template).toEqual(template);
+
+    const withoutTemplate = await service.readProject(toFile(await service.createProject(settings, pages)));
+    expect(withoutTemplate.template).toBeUndefined();
+  });
+
+  it('should recognise project files by their extension only', () => {
+    expect(service.isProjectFile(toFile('{}', 'Cover-Project.JSON'))).toBeTrue();
+    expect(service.isProjectFile(toFile('{}', 'response.txt'))).toBeFalse();
+  });
+
+  it('should reject files from a newer version', async () => {
+    const content = JSON.stringify({ format: service.FORMAT, version: service.VERSION + 1, settings, pages: [] });
+    await expectAsync(service.readProject(toFile(content))).toBeRejectedWithError(/newer version/);
+  });
+
+  it('should reject files that are not projects', async () => {
+    await expectAsync(service.readProject(toFile('{"hello": "world"}'))).toBeRejectedWithError(/not a Cover Printer project/);
+    await expectAsync(service.readProject(toFile('not json'))).toBeRejectedWithError(/not a valid project file/);
+  });
+});
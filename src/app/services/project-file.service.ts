@@ -0,0 +1,275 @@
+import { Injectable } from '@angular/core';
+import { AppSettings } from './storage.service';
+import { normalizeCoverMix } from '../models/cover-mix.model';
+import { PlaceholderImage, SheetPage, toPlaceholderImage } from '../models/sheet.model';
+import { CaptionPosition, CoverCaption, DEFAULT_CAPTION } from '../models/caption.model';
+import { ChannelLevels, DEFAULT_ADJUSTMENTS, ImageAdjustments } from '../models/adjustments.model';
+import { CoverBack, CoverBackKind, DEFAULT_COVER_BACK } from '../models/back-side.model';
+import { CoverCode, CoverCodeKind, CoverCodePlacement, DEFAULT_COVER_CODE } from '../models/cover-code.model';
+import { findTemplateProblem, SheetTemplate } from '../models/template.model';
+import { TemplateFileService } from './template-file.service';
+import { replaceImageUrls, toDataUrl } from '../utils/image-file';
+
+export interface ProjectFile {
+  format: string;
+  version: number;
+  createdAt: string;
+  // Invalid fields are left out, the app completes them with defaults
+  settings: Partial<AppSettings>;
+  pages: { placeholders: PlaceholderImage[] }[];
+  // User-defined label sheet template the pages are laid out on
+  template?: SheetTemplate;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectFileService {
+  readonly FORMAT = 'teddycloud-cover-printer-project';
+
+  // Increase when the file layout changes and add a migration in parseProject()
+  readonly VERSION = 1;
+
+  readonly FILE_EXTENSION = '.json';
+
+  private templateFileService = new TemplateFileService();
+
+  /**
+   * Build a self-contained project file including all embedded images
+   */
+  async createProject(settings: AppSettings, pages: SheetPage[], template: SheetTemplate | null = null): Promise<Blob> {
+    const projectPages: ProjectFile['pages'] = [];
+    for (const page of pages) {
+      const placeholders: PlaceholderImage[] = [];
+      for (const placeholder of page.placeholders) {
+        placeholders.push(await replaceImageUrls(toPlaceholderImage(placeholder), toDataUrl));
+      }
+      projectPages.push({ placeholders });
+    }
+
+    const project: ProjectFile = {
+      format: this.FORMAT,
+      version: this.VERSION,
+      createdAt: new Date().toISOString(),
+      settings,
+      pages: projectPages,
+      ...(template ? { template } : {})
+    };
+
+    return new Blob([JSON.stringify(project)], { type: 'application/json' });
+  }
+
+  /**
+   * Read and validate a project file.
+   * Throws an Error with a user-facing message if the file cannot be used.
+   */
+  async readProject(file: File): Promise<ProjectFile> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`"${file.name}" is not a valid project file.`);
+    }
+    return this.parseProject(parsed, file.name);
+  }
+
+  /**
+   * Check whether a dropped file should be opened as a project.
+   * Only the extension counts, as other files may be reported as JSON as well;
+   * readProject() then checks the format field.
+   */
+  isProjectFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith(this.FILE_EXTENSION);
+  }
+
+  private parseProject(data: unknown, fileName: string): ProjectFile {
+    const project = data as Partial<ProjectFile> | null;
+
+    if (!project || typeof project !== 'object' || project.format !== this.FORMAT) {
+      throw new Error(`"${fileName}" is not a Cover Printer project file.`);
+    }
+
+    if (typeof project.version !== 'number' || project.version < 1) {
+      throw new Error(`"${fileName}" has an unknown project version.`);
+    }
+
+    if (project.version > this.VERSION) {
+      throw new Error(`"${fileName}" was created by a newer version of Cover Printer (project version ${project.version}). Please update the app.`);
+    }
+
+    if (!project.settings || typeof project.settings !== 'object' || !Array.isArray(project.pages)) {
+      throw new Error(`"${fileName}" is incomplete or damaged.`);
+    }
+
+    return {
+      format: project.format,
+      version: project.version,
+      createdAt: project.createdAt ?? '',
+      settings: this.parseSettings(project.settings),
+      pages: project.pages.map(page => ({
+        placeholders: Array.isArray(page?.placeholders)
+          ? page.placeholders.map(placeholder => this.parsePlaceholder(placeholder))
+          : []
+      })),
+      ...this.parseTemplate(project.template)
+    };
+  }
+
+  // Keeps only the fields with a usable value, so damaged ones fall back to the defaults
+  private parseSettings(data: object): Partial<AppSettings> & { selectedPaperSizeIndex?: number } {
+    const settings = data as Record<string, unknown>;
+    const parsed: Record<string, unknown> = {};
+    const keep = (keys: string[], isValid: (value: unknown) => boolean) => {
+      for (const key of keys) {
+        if (isValid(settings[key])) {
+          parsed[key] = settings[key];
+        }
+      }
+    };
+    const oneOf = (values: string[]) => (value: unknown) => values.includes(value as string);
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    keep(['paperWidthMm', 'paperHeightMm', 'pictureWidth', 'pictureHeight', 'minimumDpi'], value => isNumber(value) && value > 0);
+    keep(['margins', 'spacing', 'bleed', 'selectedPaperSizeIndex'], value => isNumber(value) && value >= 0);
+    keep(['paperSizeId', 'teddyCloudUrl'], value => typeof value === 'string');
+    keep(['calibrationProfileId', 'sheetTemplateId'], value => value === null || typeof value === 'string');
+    keep([
+      'allowWhitespace', 'smartFraming', 'backSides', 'showCropMarks', 'isDarkMode', 'hexPacking',
+      'mixedSizes', 'importSortByName', 'teddyCloudIncludeCredentials'
+    ], value => typeof value === 'boolean');
+    keep(['paperOrientation'], oneOf(['portrait', 'landscape']));
+    keep(['duplexFlip'], oneOf(['long-edge', 'short-edge']));
+    keep(['printSides'], oneOf(['both', 'fronts', 'backs']));
+    keep(['placeholderShape'], oneOf(['rectangular', 'round']));
+    keep(['importOverflow'], oneOf(['pages', 'tray']));
+
+    if (Array.isArray(settings['coverMix'])) {
+      parsed['coverMix'] = normalizeCoverMix(settings['coverMix']);
+    }
+
+    return parsed;
+  }
+
+  // A damaged template is dropped, the pages then use the calculated grid
+  private parseTemplate(template: Partial<SheetTemplate> | undefined): { template?: SheetTemplate } {
+    if (!template || typeof template !== 'object') {
+      return {};
+    }
+    const parsed = this.templateFileService.parseTemplate(template);
+    return findTemplateProblem(parsed) ? {} : { template: parsed };
+  }
+
+  private parsePlaceholder(placeholder: Partial<PlaceholderImage> | null): PlaceholderImage {
+    const imageData = typeof placeholder?.imageData === 'string' && placeholder.imageData.startsWith('data:image/')
+      ? placeholder.imageData
+      : null;
+
+    return {
+      imageData,
+      offsetX: Number(placeholder?.offsetX) || 0,
+      offsetY: Number(placeholder?.offsetY) || 0,
+      scale: Number(placeholder?.scale) || 1,
+      imageWidth: imageData ? Number(placeholder?.imageWidth) || 0 : 0,
+      imageHeight: imageData ? Number(placeholder?.imageHeight) || 0 : 0,
+      rotation: Number(placeholder?.rotation) || 0,
+      flipHorizontal: placeholder?.flipHorizontal === true,
+      flipVertical: placeholder?.flipVertical === true,
+      adjustments: this.parseAdjustments(placeholder?.adjustments),
+      caption: imageData ? this.parseCaption(placeholder?.caption) : null,
+      contentName: imageData && typeof placeholder?.contentName === 'string' ? placeholder.contentName : null,
+      back: imageData ? this.parseBack(placeholder?.back) : null,
+      code: imageData ? this.parseCode(placeholder?.code) : null
+    };
+  }
+
+  private parseAdjustments(adjustments: Partial<ImageAdjustments> | null | undefined): ImageAdjustments {
+    if (!adjustments || typeof adjustments !== 'object') {
+      return { ...DEFAULT_ADJUSTMENTS };
+    }
+
+    const percent = (value: unknown, fallback: number, max: number) => {
+      const number = Number(value);
+      return Number.isFinite(number) ? Math.max(0, Math.min(max, number)) : fallback;
+    };
+
+    const levels = adjustments.levels as Partial<ChannelLevels> | null | undefined;
+    const isChannelList = (values: unknown): values is [number, number, number] =>
+      Array.isArray(values) && values.length === 3 && values.every(value => typeof value === 'number');
+    const autoLevels = adjustments.autoLevels === true;
+
+    return {
+      brightness: percent(adjustments.brightness, 100, 200),
+      contrast: percent(adjustments.contrast, 100, 200),
+      saturation: percent(adjustments.saturation, 100, 200),
+      grayscale: percent(adjustments.grayscale, 0, 100),
+      sepia: percent(adjustments.sepia, 0, 100),
+      autoLevels,
+      levels: autoLevels && isChannelList(levels?.low) && isChannelList(levels?.high)
+        ? { low: [...levels.low], high: [...levels.high] }
+        : null
+    };
+  }
+
+  private parseBack(back: Partial<CoverBack> | null | undefined): CoverBack | null {
+    if (!back || typeof back !== 'object') {
+      return null;
+    }
+
+    const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+    const kinds: CoverBackKind[] = ['image', 'color', 'text'];
+    const imageData = typeof back.imageData === 'string' && back.imageData.startsWith('data:image/') ? back.imageData : null;
+    const kind = kinds.includes(back.kind as CoverBackKind) ? back.kind as CoverBackKind : DEFAULT_COVER_BACK.kind;
+
+    return {
+      // An image back without its picture falls back to a plain back
+      kind: kind === 'image' && !imageData ? 'color' : kind,
+      color: text(back.color, DEFAULT_COVER_BACK.color),
+      text: text(back.text, ''),
+      textColor: text(back.textColor, DEFAULT_COVER_BACK.textColor),
+      imageData,
+      imageWidth: imageData ? Number(back.imageWidth) || 0 : 0,
+      imageHeight: imageData ? Number(back.imageHeight) || 0 : 0
+    };
+  }
+
+  private parseCode(code: Partial<CoverCode> | null | undefined): CoverCode | null {
+    if (!code || typeof code !== 'object') {
+      return null;
+    }
+
+    const kinds: CoverCodeKind[] = ['qr', 'code128'];
+    const placements: CoverCodePlacement[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'fill', 'back'];
+    const sizeMm = Number(code.sizeMm);
+
+    return {
+      kind: kinds.includes(code.kind as CoverCodeKind) ? code.kind as CoverCodeKind : DEFAULT_COVER_CODE.kind,
+      text: typeof code.text === 'string' ? code.text : '',
+      placement: placements.includes(code.placement as CoverCodePlacement) ? code.placement as CoverCodePlacement : DEFAULT_COVER_CODE.placement,
+      sizeMm: sizeMm > 0 ? sizeMm : DEFAULT_COVER_CODE.sizeMm
+    };
+  }
+
+  private parseCaption(caption: Partial<CoverCaption> | null | undefined): CoverCaption | null {
+    if (!caption || typeof caption !== 'object') {
+      return null;
+    }
+
+    const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+    const positions: CaptionPosition[] = ['top', 'bottom', 'curved'];
+
+    return {
+      title: text(caption.title, ''),
+      episode: text(caption.episode, ''),
+      subtitle: text(caption.subtitle, ''),
+      fontFamily: text(caption.fontFamily, DEFAULT_CAPTION.fontFamily),
+      fontSizePt: Number(caption.fontSizePt) > 0 ? Number(caption.fontSizePt) : DEFAULT_CAPTION.fontSizePt,
+      color: text(caption.color, DEFAULT_CAPTION.color),
+      outlineColor: text(caption.outlineColor, DEFAULT_CAPTION.outlineColor),
+      outlineWidthPt: Math.max(0, Number(caption.outlineWidthPt) || 0),
+      position: positions.includes(caption.position as CaptionPosition)
+        ? caption.position as CaptionPosition
+        : DEFAULT_CAPTION.position,
+      bandColor: typeof caption.bandColor === 'string' ? caption.bandColor : null
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { SessionService, StoredSession } from './session.service';
+import { ImageLayout } from '../models/sheet.model';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let saveSession: jasmine.Spy;
+
+  const layout = (pageCount: number): ImageLayout => ({
+    slotsPerPage: 4,
+    pageCount,
+    placeholderWidthMm: 44,
+    placeholderHeightMm: 44,
+    images: []
+  });
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    service = new SessionService();
+    saveSession = spyOn(service, 'saveSession').and.resolveTo();
+  });
+
+  afterEach(() => jasmine.clock().uninstall());
+
+  it('should not save before the stored session has been restored', async () => {
+    const stored: StoredSession = { version: 2, savedAt: '2026-01-01T00:00:00.000Z', layout: layout(2) };
+    spyOn(service, 'loadSession').and.resolveTo(stored);
+    const applied: StoredSession[] = [];
+
+    service.scheduleSave(() => layout(1));
+    jasmine.clock().tick(1000);
+    expect(saveSession).not.toHaveBeenCalled();
+
+    await service.restoreSession(session => applied.push(session));
+    expect(applied).toEqual([stored]);
+    expect(service.isRestored).toBeTrue();
+  });
+
+  it('should save the latest layout once changes pause', async () => {
+    spyOn(service, 'loadSession').and.resolveTo(null);
+    await service.restoreSession(() => fail('There is no stored session'));
+
+    service.scheduleSave(() => layout(1));
+    jasmine.clock().tick(300);
+    service.scheduleSave(() => layout(3));
+    jasmine.clock().tick(300);
+    expect(saveSession).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(300);
+    expect(saveSession).toHaveBeenCalledOnceWith(layout(3));
+  });
+
+  it('should drop a waiting save when the session is cleared', async () => {
+    spyOn(service, 'loadSession').and.resolveTo(null);
+    await service.restoreSession(() => undefined);
+
+    service.scheduleSave(() => layout(1));
+    service.clearSession();
+    jasmine.clock().tick(1000);
+
+    expect(saveSession).not.toHaveBeenCalled();
+  });
+});
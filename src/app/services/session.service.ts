@@ -0,0 +1,270 @@
+import { Injectable } from '@angular/core';
+import { ImageLayout } from '../models/sheet.model';
+import { StorageService } from './storage.service';
+import { adoptImage, getImageBlob, keepImageFile, readImageFile, replaceImageUrls } from '../utils/image-file';
+
+export interface StoredSession {
+  version: number;
+  savedAt: string;
+  layout: ImageLayout;
+  // Keys of the picture file records by the object URL the layout refers to; older sessions embed data URLs instead
+  fileKeys?: Record<string, string>;
+  // Version 1 kept the picture files inside the session record
+  files?: Record<string, Blob>;
+}
+
+/**
+ * Keeps the current pictures in IndexedDB so a session survives reloads and crashes.
+ * localStorage is too small for the pictures, which are stored as Blobs.
+ * Every picture file has its own record and is written once; saving a changed layout
+ * only rewrites the small session record.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  private readonly DB_NAME = 'teddycloud-cover-printer';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'session';
+  private readonly SESSION_KEY = 'current';
+  // Picture file records are keyed by this prefix and an ID
+  private readonly FILE_KEY_PREFIX = 'file';
+  private readonly SESSION_VERSION = 2;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private storageService = new StorageService();
+
+  // Record key of every picture file already stored, by its object URL
+  private storedFiles = new Map<string, string>();
+
+  // Saves run one after the other, so an older layout can't overwrite a newer one
+  private saving: Promise<void> = Promise.resolve();
+
+  // Changes are saved once they pause
+  private readonly SAVE_DELAY_MS = 500;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Nothing is saved before the stored session has been restored, so it isn't overwritten
+  private restored = false;
+
+  get isRestored(): boolean {
+    return this.restored;
+  }
+
+  /**
+   * Hand the session of the last visit to the app at startup; saving is possible afterwards
+   */
+  async restoreSession(apply: (session: StoredSession) => void): Promise<void> {
+    const session = await this.loadSession();
+    if (session) {
+      apply(session);
+    }
+    this.restored = true;
+  }
+
+  /**
+   * Save the document once changes pause; the layout is captured when the save starts
+   */
+  scheduleSave(capture: () => ImageLayout): void {
+    if (!this.restored) {
+      return;
+    }
+
+    this.cancelScheduledSave();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveSession(capture());
+    }, this.SAVE_DELAY_MS);
+  }
+
+  cancelScheduledSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  /**
+   * Load the last stored session, or null if there is none
+   */
+  async loadSession(): Promise<StoredSession | null> {
+    try {
+      const stored = await this.request<StoredSession | undefined>('readonly', store => store.get(this.SESSION_KEY));
+      if (stored && stored.version >= 1 && stored.version <= this.SESSION_VERSION && stored.layout) {
+        return { ...stored, layout: await this.restoreImages(stored, await this.loadFiles(stored)) };
+      }
+    } catch (error) {
+      console.warn('Failed to load session from IndexedDB:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Store the current pictures, replacing the previous session.
+   * Only pictures that aren't stored yet are written, files no picture uses any more are removed.
+   */
+  saveSession(layout: ImageLayout): Promise<void> {
+    this.saving = this.saving.then(() => this.writeSession(layout));
+    return this.saving;
+  }
+
+  /**
+   * Remove the stored session, including a save that is still waiting
+   */
+  clearSession(): Promise<void> {
+    this.cancelScheduledSave();
+    this.saving = this.saving.then(async () => {
+      try {
+        await this.transaction(store => store.clear());
+        this.storedFiles.clear();
+      } catch (error) {
+        console.warn('Failed to clear session in IndexedDB:', error);
+      }
+    });
+    return this.saving;
+  }
+
+  private async writeSession(layout: ImageLayout): Promise<void> {
+    try {
+      const fileKeys: Record<string, string> = {};
+      const newFiles = new Map<string, Blob>();
+      for (const { image } of layout.images) {
+        for (const imageData of [image.imageData, image.back?.imageData]) {
+          if (!imageData || imageData.startsWith('data:') || fileKeys[imageData]) {
+            continue;
+          }
+
+          const storedKey = this.storedFiles.get(imageData);
+          if (storedKey) {
+            fileKeys[imageData] = storedKey;
+            continue;
+          }
+
+          // A picture that can't be read any more must not keep the others from being saved
+          try {
+            const key = this.storageService.createId(this.FILE_KEY_PREFIX);
+            newFiles.set(key, await getImageBlob(imageData));
+            fileKeys[imageData] = key;
+          } catch (error) {
+            console.warn('Failed to read picture for the session:', error);
+          }
+        }
+      }
+
+      const session: StoredSession = {
+        version: this.SESSION_VERSION,
+        savedAt: new Date().toISOString(),
+        layout,
+        fileKeys
+      };
+      const inUse = new Set(Object.values(fileKeys));
+
+      await this.transaction(store => {
+        newFiles.forEach((file, key) => store.put(file, key));
+        store.put(session, this.SESSION_KEY);
+
+        // Also catches files left behind by a tab that closed while saving
+        const keysRequest = store.getAllKeys();
+        keysRequest.onsuccess = () => {
+          keysRequest.result
+            .filter(key => typeof key === 'string' && key.startsWith(`${this.FILE_KEY_PREFIX}-`) && !inUse.has(key))
+            .forEach(key => store.delete(key));
+        };
+      });
+
+      this.storedFiles = new Map(Object.entries(fileKeys));
+    } catch (error) {
+      console.warn('Failed to save session to IndexedDB:', error);
+    }
+  }
+
+  // Picture files of a stored session by the object URL its layout refers to
+  private async loadFiles(stored: StoredSession): Promise<Map<string, { key: string | null; file: Blob }>> {
+    const files = new Map<string, { key: string | null; file: Blob }>();
+    Object.entries(stored.files ?? {}).forEach(([imageData, file]) => files.set(imageData, { key: null, file }));
+
+    for (const [imageData, key] of Object.entries(stored.fileKeys ?? {})) {
+      const file = await this.request<Blob | undefined>('readonly', store => store.get(key));
+      if (file) {
+        files.set(imageData, { key, file });
+      }
+    }
+    return files;
+  }
+
+  // Layout with new object URLs for the stored files; copies of a picture share one URL again.
+  // Files that no longer decode keep their Blob, the URL of the previous tab is already revoked.
+  // Files that have their own record are remembered, so the next save doesn't write them again.
+  private async restoreImages(stored: StoredSession, files: Map<string, { key: string | null; file: Blob }>): Promise<ImageLayout> {
+    const restored = new Map<string, Promise<string>>();
+    const restore = (imageData: string): Promise<string> => {
+      if (!restored.has(imageData)) {
+        const entry = files.get(imageData);
+        restored.set(imageData, entry
+          ? readImageFile(entry.file).then(image => image.imageData, () => keepImageFile(entry.file)).then(url => {
+            if (entry.key) {
+              this.storedFiles.set(url, entry.key);
+            }
+            return url;
+          })
+          : adoptImage(imageData));
+      }
+      return restored.get(imageData) as Promise<string>;
+    };
+
+    const images = [];
+    for (const entry of stored.layout.images) {
+      images.push({ ...entry, image: await replaceImageUrls(entry.image, restore) });
+    }
+    return { ...stored.layout, images };
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const openRequest = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            db.createObjectStore(this.STORE_NAME);
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => this.dbPromise = null);
+    }
+    return this.dbPromise;
+  }
+
+  // Several changes that are applied together or not at all
+  private async transaction(action: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+      action(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const request = action(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
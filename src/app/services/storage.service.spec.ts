@@ -0,0 +1,57 @@
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  const service = new StorageService();
+
+  afterEach(() => service.clearStorage());
+
+  it('should migrate the paper size index of older settings', () => {
+    const settings = service.mergeWithDefaults({ selectedPaperSizeIndex: 2 });
+
+    expect(settings.paperSizeId).toBe('a5');
+    expect(settings.paperWidthMm).toBe(148);
+    expect(settings.paperHeightMm).toBe(210);
+    expect(settings.paperOrientation).toBe('portrait');
+    expect('selectedPaperSizeIndex' in settings).toBeFalse();
+  });
+
+  it('should keep a stored paper size ID over the legacy index', () => {
+    const settings = service.mergeWithDefaults({ paperSizeId: 'letter', selectedPaperSizeIndex: 3 });
+
+    expect(settings.paperSizeId).toBe('letter');
+  });
+
+  it('should store paper presets and skip invalid entries', () => {
+    const preset = { id: service.createId('preset'), label: 'Sticker paper', widthMm: 120, heightMm: 170 };
+    service.savePaperPresets([preset]);
+
+    expect(service.loadPaperPresets()).toEqual([preset]);
+
+    localStorage.setItem('teddycloud-cover-printer-paper-presets', JSON.stringify([preset, { id: 'x', label: 'Broken', widthMm: 0 }]));
+    expect(service.loadPaperPresets()).toEqual([preset]);
+  });
+
+  it('should store calibration profiles and skip invalid entries', () => {
+    const profile = { id: service.createId('printer'), name: 'Office inkjet', scaleX: 0.99, scaleY: 1.005, offsetXMm: 0.4, offsetYMm: -1.2 };
+    service.saveCalibrationProfiles([profile]);
+
+    expect(service.loadCalibrationProfiles()).toEqual([profile]);
+
+    localStorage.setItem('teddycloud-cover-printer-calibration-profiles', JSON.stringify([profile, { ...profile, id: 'x', scaleX: 0 }]));
+    expect(service.loadCalibrationProfiles()).toEqual([profile]);
+  });
+
+  it('should only load sheet templates that can be printed', () => {
+    const template = {
+      id: service.createId('template'),
+      name: 'Stickers',
+      paperWidthMm: 100,
+      paperHeightMm: 150,
+      slots: [{ left: 10, top: 10, width: 40, height: 40, shape: 'round' as const }]
+    };
+    const broken = { ...template, id: 'broken', slots: [{ ...template.slots[0], left: 90 }] };
+    localStorage.setItem('teddycloud-cover-printer-sheet-templates', JSON.stringify([template, broken]));
+
+    expect(service.loadSheetTemplates()).toEqual([template]);
+  });
+});
@@ -1,15 +1,52 @@
 import { Injectable } from '@angular/core';
+import { LEGACY_PAPER_SIZE_IDS, PAPER_SIZES, PaperOrientation, PaperSize } from '../models/paper.model';
+import { CoverGroup, DEFAULT_COVER_MIX } from '../models/cover-mix.model';
+import { ImportOverflow } from '../models/import.model';
+import { DEFAULT_MINIMUM_DPI } from '../models/preflight.model';
+import { CalibrationProfile } from '../models/calibration.model';
+import { DuplexFlip, PrintSides } from '../models/back-side.model';
+import { PlaceholderShape } from '../models/sheet.model';
+import { findTemplateProblem, SheetTemplate } from '../models/template.model';
 
 export interface AppSettings {
-  selectedPaperSizeIndex: number;
+  // Built-in size, user preset or 'custom'
+  paperSizeId: string;
+  // Upright size of the selected paper, kept so unknown presets (e.g. from a project file) still work
+  paperWidthMm: number;
+  paperHeightMm: number;
+  paperOrientation: PaperOrientation;
   pictureWidth: number;
   pictureHeight: number;
   margins: number;
   spacing: number;
+  // Extra image around the cut line, so imprecise cutting shows no white edge (mm)
+  bleed: number;
   allowWhitespace: boolean;
+  // Frame new pictures around their subject instead of the centre
+  smartFraming: boolean;
+  // Covers below this effective resolution are flagged (DPI)
+  minimumDpi: number;
+  // Printer calibration applied to printing and PDF export, null for none
+  calibrationProfileId: string | null;
+  // Double-sided printing: back sheets, how the paper is turned and which sides are printed
+  backSides: boolean;
+  duplexFlip: DuplexFlip;
+  printSides: PrintSides;
   showCropMarks: boolean;
   isDarkMode: boolean;
-  placeholderShape: 'rectangular' | 'round';
+  placeholderShape: PlaceholderShape;
+  // Staggered rows for round placeholders
+  hexPacking: boolean;
+  // Label sheet template replacing the calculated grid, null for the grid
+  sheetTemplateId: string | null;
+  // Pack covers of different sizes onto the same sheets instead of one grid
+  mixedSizes: boolean;
+  coverMix: CoverGroup[];
+  // Batch import: order of the pictures and where they go when the placeholders are full
+  importSortByName: boolean;
+  importOverflow: ImportOverflow;
+  teddyCloudUrl: string;
+  teddyCloudIncludeCredentials: boolean;
 }
 
 @Injectable({
@@ -18,18 +55,39 @@ export interface AppSettings {
 export class StorageService {
   private readonly SETTINGS_KEY = 'teddycloud-cover-printer-settings';
   private readonly DARK_MODE_KEY = 'teddycloud-cover-printer-dark-mode';
+  private readonly PAPER_PRESETS_KEY = 'teddycloud-cover-printer-paper-presets';
+  private readonly SHEET_TEMPLATES_KEY = 'teddycloud-cover-printer-sheet-templates';
+  private readonly CALIBRATION_PROFILES_KEY = 'teddycloud-cover-printer-calibration-profiles';
 
   // Default settings
   private readonly DEFAULT_SETTINGS: AppSettings = {
-    selectedPaperSizeIndex: 0,
+    paperSizeId: PAPER_SIZES[0].id,
+    paperWidthMm: PAPER_SIZES[0].widthMm,
+    paperHeightMm: PAPER_SIZES[0].heightMm,
+    paperOrientation: 'portrait',
     pictureWidth: 44,
     pictureHeight: 44,
     margins: 4,
     spacing: 2,
+    bleed: 0,
     allowWhitespace: false,
+    smartFraming: false,
+    minimumDpi: DEFAULT_MINIMUM_DPI,
+    calibrationProfileId: null,
+    backSides: false,
+    duplexFlip: 'long-edge',
+    printSides: 'both',
     showCropMarks: true,
     isDarkMode: false,
-    placeholderShape: 'rectangular'
+    placeholderShape: 'rectangular',
+    hexPacking: false,
+    sheetTemplateId: null,
+    mixedSizes: false,
+    coverMix: DEFAULT_COVER_MIX,
+    importSortByName: false,
+    importOverflow: 'pages',
+    teddyCloudUrl: '',
+    teddyCloudIncludeCredentials: false
   };
 
   /**
@@ -40,9 +98,7 @@ export class StorageService {
     try {
       const stored = localStorage.getItem(this.SETTINGS_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored);
-        // Merge with defaults to handle new settings added in future versions
-        return { ...this.DEFAULT_SETTINGS, ...parsed };
+        return this.mergeWithDefaults(JSON.parse(stored));
       }
     } catch (error) {
       console.warn('Failed to load settings from localStorage:', error);
@@ -50,6 +106,144 @@ export class StorageService {
     return { ...this.DEFAULT_SETTINGS };
   }
 
+  /**
+   * Complete partial settings with default values.
+   * Handles settings added in future versions and settings from project files.
+   */
+  mergeWithDefaults(settings: Partial<AppSettings> & { selectedPaperSizeIndex?: number }): AppSettings {
+    const { selectedPaperSizeIndex, ...current } = settings;
+    const merged = { ...this.DEFAULT_SETTINGS, ...current };
+
+    // Older versions stored the position in the paper size list
+    if (!current.paperSizeId && typeof selectedPaperSizeIndex === 'number') {
+      const legacySize = PAPER_SIZES.find(size => size.id === LEGACY_PAPER_SIZE_IDS[selectedPaperSizeIndex]);
+      if (legacySize) {
+        merged.paperSizeId = legacySize.id;
+        merged.paperWidthMm = legacySize.widthMm;
+        merged.paperHeightMm = legacySize.heightMm;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Retrieve the user's named paper sizes
+   */
+  loadPaperPresets(): PaperSize[] {
+    try {
+      const stored = localStorage.getItem(this.PAPER_PRESETS_KEY);
+      if (stored) {
+        const presets: unknown = JSON.parse(stored);
+        if (Array.isArray(presets)) {
+          return presets.filter((preset): preset is PaperSize =>
+            !!preset &&
+            typeof preset.id === 'string' &&
+            typeof preset.label === 'string' &&
+            preset.widthMm > 0 &&
+            preset.heightMm > 0
+          );
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load paper presets from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Save the user's named paper sizes
+   */
+  savePaperPresets(presets: PaperSize[]): void {
+    try {
+      localStorage.setItem(this.PAPER_PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.warn('Failed to save paper presets to localStorage:', error);
+    }
+  }
+
+  /**
+   * Retrieve the user's label sheet templates
+   */
+  loadSheetTemplates(): SheetTemplate[] {
+    try {
+      const stored = localStorage.getItem(this.SHEET_TEMPLATES_KEY);
+      if (stored) {
+        const templates: unknown = JSON.parse(stored);
+        if (Array.isArray(templates)) {
+          return templates.filter((template): template is SheetTemplate =>
+            !!template &&
+            typeof template.id === 'string' &&
+            typeof template.name === 'string' &&
+            Array.isArray(template.slots) &&
+            findTemplateProblem(template) === null
+          );
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load sheet templates from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Save the user's label sheet templates
+   */
+  saveSheetTemplates(templates: SheetTemplate[]): void {
+    try {
+      localStorage.setItem(this.SHEET_TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.warn('Failed to save sheet templates to localStorage:', error);
+    }
+  }
+
+  /**
+   * Retrieve the user's printer calibration profiles
+   */
+  loadCalibrationProfiles(): CalibrationProfile[] {
+    try {
+      const stored = localStorage.getItem(this.CALIBRATION_PROFILES_KEY);
+      if (stored) {
+        const profiles: unknown = JSON.parse(stored);
+        if (Array.isArray(profiles)) {
+          return profiles.filter((profile): profile is CalibrationProfile =>
+            !!profile &&
+            typeof profile.id === 'string' &&
+            typeof profile.name === 'string' &&
+            profile.scaleX > 0 &&
+            profile.scaleY > 0 &&
+            Number.isFinite(profile.offsetXMm) &&
+            Number.isFinite(profile.offsetYMm)
+          );
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load calibration profiles from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Save the user's printer calibration profiles
+   */
+  saveCalibrationProfiles(profiles: CalibrationProfile[]): void {
+    try {
+      localStorage.setItem(this.CALIBRATION_PROFILES_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.warn('Failed to save calibration profiles to localStorage:', error);
+    }
+  }
+
+  /**
+   * Create an ID for a new preset or template that stays valid when others are added or removed
+   */
+  createId(prefix: string): string {
+    const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    return `${prefix}-${random}`;
+  }
+
   /**
    * Save all settings to localStorage
    */
@@ -94,6 +288,9 @@ export class StorageService {
     try {
       localStorage.removeItem(this.SETTINGS_KEY);
       localStorage.removeItem(this.DARK_MODE_KEY);
+      localStorage.removeItem(this.PAPER_PRESETS_KEY);
+      localStorage.removeItem(this.SHEET_TEMPLATES_KEY);
+      localStorage.removeItem(this.CALIBRATION_PROFILES_KEY);
     } catch (error) {
       console.warn('Failed to clear storage:', error);
     }
@@ -0,0 +1,78 @@
+import { TeddyCloudCover, TeddyCloudService } from './teddycloud.service';
+
+describe('TeddyCloudService', () => {
+  let service: TeddyCloudService;
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    service = new TeddyCloudService();
+  });
+
+  it('should normalize server addresses', () => {
+    expect(service.normalizeBaseUrl(' teddycloud.local/ ')).toBe('http://teddycloud.local');
+    expect(service.normalizeBaseUrl('https://tc.example.com//')).toBe('https://tc.example.com');
+    expect(service.normalizeBaseUrl('')).toBe('');
+  });
+
+  it('should load tonies and custom content with absolute picture URLs', async () => {
+    spyOn(window, 'fetch').and.callFake(async (input: RequestInfo | URL) => {
+      const url = input.toString();
+      if (url.endsWith('/api/toniesCustomJson')) {
+        return jsonResponse([{ model: 'c1', title: 'Holiday', series: 'Family', pic: '/img/c1.png' }]);
+      }
+      return jsonResponse([
+        { model: '1', title: 'Die Maus', series: 'Maus', pic: 'https://cdn.example.com/maus.png' },
+        { model: '2', title: 'Die Maus', series: 'Maus', pic: 'https://cdn.example.com/maus.png' },
+        { model: '3', title: 'No picture' },
+        { model: '4', title: 'Broken picture', pic: 'https://bad host/x.png' }
+      ]);
+    });
+
+    const covers = await service.loadLibrary({ baseUrl: 'http://tc.local', includeCredentials: false });
+
+    expect(covers.map(cover => cover.title)).toEqual(['Holiday', 'Die Maus']);
+    expect(covers[0].pictureUrl).toBe('http://tc.local/img/c1.png');
+    expect(covers[0].source).toBe('custom');
+  });
+
+  it('should skip custom content on servers without it', async () => {
+    spyOn(window, 'fetch').and.callFake(async (input: RequestInfo | URL) =>
+      input.toString().endsWith('/api/toniesCustomJson')
+        ? new Response('Not found', { status: 404 })
+        : jsonResponse([{ model: '1', title: 'Die Maus', pic: '/maus.png' }])
+    );
+
+    const covers = await service.loadLibrary({ baseUrl: 'http://tc.local', includeCredentials: false });
+    expect(covers.length).toBe(1);
+  });
+
+  it('should report authentication and network failures', async () => {
+    const fetchSpy = spyOn(window, 'fetch').and.resolveTo(new Response('Unauthorized', { status: 401 }));
+    await expectAsync(service.loadLibrary({ baseUrl: 'http://tc.local', includeCredentials: false }))
+      .toBeRejectedWithError(/refused access/);
+
+    fetchSpy.and.rejectWith(new TypeError('Failed to fetch'));
+    await expectAsync(service.loadLibrary({ baseUrl: 'http://tc.local', includeCredentials: false }))
+      .toBeRejectedWithError(/CORS/);
+  });
+
+  it('should reject malformed server addresses before loading', async () => {
+    const fetchSpy = spyOn(window, 'fetch');
+    await expectAsync(service.loadLibrary({ baseUrl: 'teddy cloud.local', includeCredentials: false }))
+      .toBeRejectedWithError(/"teddy cloud.local" is not a valid server address/);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should search title, series and episodes', () => {
+    const covers: TeddyCloudCover[] = [
+      { id: '1', title: 'Die Maus', series: 'Sendung mit der Maus', episodes: 'Folge 1', pictureUrl: '', source: 'tonies' },
+      { id: '2', title: 'Pumuckl', series: 'Meister Eder', episodes: 'Folge 2', pictureUrl: '', source: 'tonies' }
+    ];
+
+    expect(service.filterCovers(covers, 'eder').map(cover => cover.id)).toEqual(['2']);
+    expect(service.filterCovers(covers, 'folge maus').map(cover => cover.id)).toEqual(['1']);
+    expect(service.filterCovers(covers, '  ').length).toBe(2);
+  });
+});
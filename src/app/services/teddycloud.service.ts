@@ -0,0 +1,224 @@
+import { Injectable } from '@angular/core';
+
+export interface TeddyCloudConnection {
+  baseUrl: string;
+  // Send cookies, e.g. for a reverse proxy with session login
+  includeCredentials: boolean;
+  // Optional HTTP basic auth, kept in memory only
+  username?: string;
+  password?: string;
+}
+
+export interface TeddyCloudCover {
+  id: string;
+  title: string;
+  series: string;
+  episodes: string;
+  pictureUrl: string;
+  source: 'tonies' | 'custom';
+}
+
+// A cover picked in the library, with its downloaded picture
+export interface TeddyCloudCoverPick {
+  cover: TeddyCloudCover;
+  file: File;
+}
+
+// Entry of /api/toniesJson and /api/toniesCustomJson (only the fields we use)
+interface TonieJsonEntry {
+  model?: string;
+  title?: string;
+  series?: string;
+  episodes?: string;
+  pic?: string;
+}
+
+// Lets optional endpoints be skipped on older servers
+class NotFoundError extends Error {}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TeddyCloudService {
+  private readonly TONIES_PATH = '/api/toniesJson';
+  private readonly CUSTOM_TONIES_PATH = '/api/toniesCustomJson';
+
+  /**
+   * Normalize a user-entered server address, e.g. "teddycloud.local/" -> "http://teddycloud.local"
+   */
+  normalizeBaseUrl(baseUrl: string): string {
+    let url = baseUrl.trim();
+    if (!url) {
+      return '';
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      url = `http://${url}`;
+    }
+    return url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Load the tonies and the custom content of a TeddyCloud server.
+   * Throws an Error with a user-facing message if the server cannot be used.
+   */
+  async loadLibrary(connection: TeddyCloudConnection): Promise<TeddyCloudCover[]> {
+    const baseUrl = this.normalizeBaseUrl(connection.baseUrl);
+    if (!baseUrl) {
+      throw new Error('Please enter the address of your TeddyCloud server.');
+    }
+    if (!this.parseUrl(baseUrl)) {
+      throw new Error(`"${connection.baseUrl.trim()}" is not a valid server address. Enter it like "teddycloud.local" or "http://192.168.1.20:8080".`);
+    }
+
+    const [tonies, custom] = await Promise.all([
+      this.fetchTonies(connection, baseUrl, this.TONIES_PATH, false),
+      // Older servers don't have custom content
+      this.fetchTonies(connection, baseUrl, this.CUSTOM_TONIES_PATH, true)
+    ]);
+
+    return [
+      ...this.toCovers(custom, baseUrl, 'custom'),
+      ...this.toCovers(tonies, baseUrl, 'tonies')
+    ];
+  }
+
+  /**
+   * Download the picture of a cover as a file, ready for the regular image loading path
+   */
+  async fetchCoverImage(connection: TeddyCloudConnection, cover: TeddyCloudCover): Promise<File> {
+    const response = await this.request(connection, cover.pictureUrl, `the picture of "${cover.title}"`);
+    const blob = await response.blob();
+
+    if (!blob.type.startsWith('image/')) {
+      throw new Error(`The picture of "${cover.title}" is not an image (${blob.type || 'unknown type'}).`);
+    }
+
+    const extension = blob.type.split('/')[1]?.split('+')[0] || 'img';
+    const fileName = `${cover.title.replace(/[^\w\- ]+/g, '').trim() || 'cover'}.${extension}`;
+    return new File([blob], fileName, { type: blob.type });
+  }
+
+  /**
+   * Case-insensitive search in title, series and episodes. Every word has to match.
+   */
+  filterCovers(covers: TeddyCloudCover[], query: string): TeddyCloudCover[] {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+    if (words.length === 0) {
+      return covers;
+    }
+
+    return covers.filter(cover => {
+      const text = `${cover.title} ${cover.series} ${cover.episodes}`.toLowerCase();
+      return words.every(word => text.includes(word));
+    });
+  }
+
+  private async fetchTonies(
+    connection: TeddyCloudConnection,
+    baseUrl: string,
+    path: string,
+    optional: boolean
+  ): Promise<TonieJsonEntry[]> {
+    let response: Response;
+    try {
+      response = await this.request(connection, baseUrl + path, 'the TeddyCloud library');
+    } catch (error) {
+      if (optional && error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      data = null;
+    }
+
+    if (!Array.isArray(data)) {
+      throw new Error(`${baseUrl} did not return a TeddyCloud library. Please check the address.`);
+    }
+    return data as TonieJsonEntry[];
+  }
+
+  private toCovers(entries: TonieJsonEntry[], baseUrl: string, source: TeddyCloudCover['source']): TeddyCloudCover[] {
+    const seen = new Set<string>();
+    const covers: TeddyCloudCover[] = [];
+
+    entries.forEach((entry, index) => {
+      if (!entry || typeof entry.pic !== 'string' || !entry.pic) {
+        return;
+      }
+
+      // One broken entry must not fail the whole library
+      const pictureUrl = this.parseUrl(entry.pic, `${baseUrl}/`)?.toString();
+      if (!pictureUrl) {
+        return;
+      }
+      const title = entry.title || entry.series || 'Untitled';
+
+      // The same figure is often listed once per audio version
+      const key = `${pictureUrl}|${title}`;
+      if (seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+
+      covers.push({
+        id: `${source}-${entry.model || index}`,
+        title,
+        series: entry.series || '',
+        episodes: entry.episodes || '',
+        pictureUrl,
+        source
+      });
+    });
+
+    return covers;
+  }
+
+  private parseUrl(url: string, base?: string): URL | null {
+    try {
+      return new URL(url, base);
+    } catch {
+      return null;
+    }
+  }
+
+  private async request(connection: TeddyCloudConnection, url: string, what: string): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (connection.username) {
+      const credentials = new TextEncoder().encode(`${connection.username}:${connection.password ?? ''}`);
+      headers['Authorization'] = `Basic ${btoa(String.fromCharCode(...credentials))}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers,
+        credentials: connection.includeCredentials ? 'include' : 'same-origin'
+      });
+    } catch {
+      // Browsers report blocked cross-origin requests as plain network errors
+      throw new Error(`Could not load ${what} from ${this.parseUrl(url)?.origin ?? url}. ` +
+        'The server may be offline, or it does not allow requests from this site (CORS). ' +
+        `Allow the origin ${location.origin} on the server or its reverse proxy.`);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`The server refused access to ${what} (HTTP ${response.status}). ` +
+        'Check username and password, or sign in to your reverse proxy and enable "Send cookies".');
+    }
+
+    if (response.status === 404) {
+      throw new NotFoundError(`Could not find ${what} on the server (HTTP 404).`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`The server could not deliver ${what} (HTTP ${response.status}).`);
+    }
+
+    return response;
+  }
+}
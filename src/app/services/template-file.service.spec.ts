@@ -0,0 +1,48 @@
+import { TemplateFileService } from './template-file.service';
+import { SheetTemplate } from '../models/template.model';
+
+describe('TemplateFileService', () => {
+  const service = new TemplateFileService();
+
+  const template: SheetTemplate = {
+    id: 'user-1',
+    name: 'Sticker sheet',
+    paperWidthMm: 100,
+    paperHeightMm: 150,
+    slots: [
+      { left: 5, top: 5, width: 40, height: 40, shape: 'round' },
+      { left: 50, top: 5, width: 45, height: 30, shape: 'rectangular' }
+    ]
+  };
+
+  const toFile = (content: BlobPart, name = 'templates.json') => new File([content], name, { type: 'application/json' });
+  const withTemplates = (templates: unknown[]) => JSON.stringify({ format: service.FORMAT, version: service.VERSION, templates });
+
+  it('should read exported templates', async () => {
+    const templates = await service.readTemplates(toFile(service.createTemplateFile([template])));
+
+    expect(templates).toEqual([template]);
+  });
+
+  it('should use the width as diameter of round labels', async () => {
+    const [parsed] = await service.readTemplates(toFile(withTemplates([{
+      ...template,
+      slots: [{ left: 5, top: 5, width: 40, height: 20, shape: 'round' }]
+    }])));
+
+    expect(parsed.slots[0].height).toBe(40);
+  });
+
+  it('should reject labels outside the paper or on top of each other', async () => {
+    const outside = { ...template, slots: [{ left: 80, top: 5, width: 40, height: 40, shape: 'rectangular' }] };
+    const overlapping = { ...template, slots: [template.slots[0], { ...template.slots[0], left: 30 }] };
+
+    await expectAsync(service.readTemplates(toFile(withTemplates([outside])))).toBeRejectedWithError(/outside the 100×150mm paper/);
+    await expectAsync(service.readTemplates(toFile(withTemplates([overlapping])))).toBeRejectedWithError(/overlaps label 2/);
+  });
+
+  it('should reject files that are not template files', async () => {
+    await expectAsync(service.readTemplates(toFile('{"format": "something-else"}'))).toBeRejectedWithError(/not a Cover Printer template file/);
+    await expectAsync(service.readTemplates(toFile('not json'))).toBeRejectedWithError(/not a valid template file/);
+  });
+});
@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { PlaceholderShape, SheetSlot } from '../models/sheet.model';
+import { findTemplateProblem, SheetTemplate } from '../models/template.model';
+
+export interface TemplateFile {
+  format: string;
+  version: number;
+  templates: SheetTemplate[];
+}
+
+/**
+ * Import and export of user-defined label sheet templates as JSON
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TemplateFileService {
+  readonly FORMAT = 'teddycloud-cover-printer-templates';
+
+  // Increase when the file layout changes and add a migration in parseTemplates()
+  readonly VERSION = 1;
+
+  readonly FILE_EXTENSION = '.json';
+
+  createTemplateFile(templates: SheetTemplate[]): Blob {
+    const file: TemplateFile = {
+      format: this.FORMAT,
+      version: this.VERSION,
+      templates
+    };
+
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  }
+
+  /**
+   * Read and validate a template file.
+   * Throws an Error with a user-facing message if the file cannot be used.
+   */
+  async readTemplates(file: File): Promise<SheetTemplate[]> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`"${file.name}" is not a valid template file.`);
+    }
+    return this.parseTemplates(parsed, file.name);
+  }
+
+  private parseTemplates(data: unknown, fileName: string): SheetTemplate[] {
+    const file = data as Partial<TemplateFile> | null;
+
+    if (!file || typeof file !== 'object' || file.format !== this.FORMAT) {
+      throw new Error(`"${fileName}" is not a Cover Printer template file.`);
+    }
+
+    if (typeof file.version !== 'number' || file.version > this.VERSION) {
+      throw new Error(`"${fileName}" was created by a newer version of Cover Printer. Please update the app.`);
+    }
+
+    if (!Array.isArray(file.templates) || file.templates.length === 0) {
+      throw new Error(`"${fileName}" contains no templates.`);
+    }
+
+    return file.templates.map((template, index) => {
+      const parsed = this.parseTemplate(template);
+      const problem = findTemplateProblem(parsed);
+      if (problem) {
+        throw new Error(`Template "${parsed.name || index + 1}" in "${fileName}" cannot be used: ${problem}`);
+      }
+      return parsed;
+    });
+  }
+
+  /**
+   * Normalize a template read from JSON; use findTemplateProblem() to check whether it can be printed
+   */
+  parseTemplate(template: Partial<SheetTemplate> | null): SheetTemplate {
+    return {
+      id: typeof template?.id === 'string' ? template.id : '',
+      name: typeof template?.name === 'string' ? template.name.trim() : '',
+      paperWidthMm: Number(template?.paperWidthMm) || 0,
+      paperHeightMm: Number(template?.paperHeightMm) || 0,
+      slots: Array.isArray(template?.slots) ? template.slots.map(slot => this.parseSlot(slot)) : []
+    };
+  }
+
+  private parseSlot(slot: Partial<SheetSlot> | null): SheetSlot {
+    const shape: PlaceholderShape = slot?.shape === 'round' ? 'round' : 'rectangular';
+    const width = Number(slot?.width) || 0;
+
+    return {
+      left: Number(slot?.left) || 0,
+      top: Number(slot?.top) || 0,
+      width,
+      // The diameter is the width, a differing height would stretch the circle
+      height: shape === 'round' ? width : Number(slot?.height) || 0,
+      shape
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { findImportProblem, selectImportFiles } from './batch-import';
+
+describe('batch import', () => {
+  const image = (name: string, type = 'image/jpeg') => new File(['data'], name, { type });
+
+  it('should accept image files', () => {
+    expect(findImportProblem(image('cover.png', 'image/png'))).toBeNull();
+  });
+
+  it('should give a reason for files that are not pictures', () => {
+    expect(findImportProblem(image('notes.txt', 'text/plain'))).toContain('text/plain');
+    expect(findImportProblem(image('archive', ''))).toContain('Unknown file type');
+    expect(findImportProblem(new File([], 'empty.jpg', { type: 'image/jpeg' }))).toContain('empty');
+    expect(findImportProblem(image('cover-project.json', 'application/json'))).toContain('on their own');
+  });
+
+  it('should keep the selection order by default', () => {
+    const selection = selectImportFiles([image('b.jpg'), image('a.jpg')], false);
+
+    expect(selection.images.map(file => file.name)).toEqual(['b.jpg', 'a.jpg']);
+  });
+
+  it('should sort by file name in natural order', () => {
+    const selection = selectImportFiles([image('Cover 10.jpg'), image('cover 2.jpg'), image('Cover 1.jpg')], true);
+
+    expect(selection.images.map(file => file.name)).toEqual(['Cover 1.jpg', 'cover 2.jpg', 'Cover 10.jpg']);
+  });
+
+  it('should list rejected files with their reason', () => {
+    const selection = selectImportFiles([image('a.jpg'), image('readme.pdf', 'application/pdf')], true);
+
+    expect(selection.images.length).toBe(1);
+    expect(selection.rejected).toEqual([{ name: 'readme.pdf', reason: 'Not an image (application/pdf)' }]);
+  });
+});
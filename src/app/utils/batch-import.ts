@@ -0,0 +1,50 @@
+import { RejectedFile } from '../models/import.model';
+
+export interface ImportSelection {
+  // Image files in import order
+  images: File[];
+  rejected: RejectedFile[];
+}
+
+// Natural order, so "cover 2" comes before "cover 10"
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Reason why a file can't become a cover, null for image files
+ */
+export function findImportProblem(file: File): string | null {
+  if (file.name.toLowerCase().endsWith('.json')) {
+    return 'Project and template files can\'t be imported as pictures, open them on their own';
+  }
+  if (!file.type.startsWith('image/')) {
+    return file.type ? `Not an image (${file.type})` : 'Unknown file type, not an image';
+  }
+  if (file.size === 0) {
+    return 'The file is empty';
+  }
+  return null;
+}
+
+/**
+ * Split dropped or picked files into images to import and rejected files.
+ * Images keep the order of the selection unless sorted by file name.
+ */
+export function selectImportFiles(files: File[], sortByName: boolean): ImportSelection {
+  const images: File[] = [];
+  const rejected: RejectedFile[] = [];
+
+  files.forEach(file => {
+    const reason = findImportProblem(file);
+    if (reason) {
+      rejected.push({ name: file.name, reason });
+    } else {
+      images.push(file);
+    }
+  });
+
+  if (sortByName) {
+    images.sort((a, b) => nameCollator.compare(a.name, b.name));
+  }
+
+  return { images, rejected };
+}
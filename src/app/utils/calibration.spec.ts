@@ -0,0 +1,63 @@
+import { NO_CALIBRATION } from '../models/calibration.model';
+import {
+  calibrationCorrection,
+  calibrationFromMeasurements,
+  calibrationRulerLength,
+  findCalibrationProblem,
+  measurementsFromCalibration
+} from './calibration';
+
+describe('printer calibration', () => {
+  it('should fit the rulers between the margins in whole centimetres', () => {
+    expect(calibrationRulerLength(100)).toBe(80);
+    expect(calibrationRulerLength(210)).toBe(190);
+    expect(calibrationRulerLength(297)).toBe(270);
+  });
+
+  it('should measure scale and offset of a printer', () => {
+    // The printer shrinks horizontally by 1% and moves everything 1.5 mm down
+    const calibration = calibrationFromMeasurements({ rulerXMm: 79.2, rulerYMm: 130, markXMm: 9.9, markYMm: 11.5 }, 80, 130);
+
+    expect(calibration.scaleX).toBeCloseTo(0.99, 6);
+    expect(calibration.scaleY).toBe(1);
+    expect(calibration.offsetXMm).toBeCloseTo(0, 6);
+    expect(calibration.offsetYMm).toBeCloseTo(1.5, 6);
+  });
+
+  it('should turn a calibration back into measurements', () => {
+    const measurements = { rulerXMm: 79.2, rulerYMm: 131, markXMm: 10.4, markYMm: 8.7 };
+    const roundTrip = measurementsFromCalibration(calibrationFromMeasurements(measurements, 80, 130), 80, 130);
+
+    expect(roundTrip.rulerXMm).toBeCloseTo(79.2, 6);
+    expect(roundTrip.rulerYMm).toBeCloseTo(131, 6);
+    expect(roundTrip.markXMm).toBeCloseTo(10.4, 6);
+    expect(roundTrip.markYMm).toBeCloseTo(8.7, 6);
+  });
+
+  it('should correct positions so the printer puts them in place', () => {
+    const calibration = { scaleX: 0.98, scaleY: 1.01, offsetXMm: 1.2, offsetYMm: -0.8 };
+    const correction = calibrationCorrection(calibration);
+
+    // A cover edge requested at 44 mm is sent corrected and printed at 44 mm
+    const sentX = 44 * correction.scaleX + correction.translateXMm;
+    const sentY = 44 * correction.scaleY + correction.translateYMm;
+    expect(sentX * calibration.scaleX + calibration.offsetXMm).toBeCloseTo(44, 6);
+    expect(sentY * calibration.scaleY + calibration.offsetYMm).toBeCloseTo(44, 6);
+  });
+
+  it('should leave the layout alone without calibration', () => {
+    const correction = calibrationCorrection(NO_CALIBRATION);
+
+    expect(correction.scaleX).toBe(1);
+    expect(correction.scaleY).toBe(1);
+    expect(correction.translateXMm).toBeCloseTo(0, 6);
+    expect(correction.translateYMm).toBeCloseTo(0, 6);
+  });
+
+  it('should reject measurements that are far off', () => {
+    expect(findCalibrationProblem(NO_CALIBRATION)).toBeNull();
+    expect(findCalibrationProblem({ ...NO_CALIBRATION, scaleX: 0.7 })).toContain('20%');
+    expect(findCalibrationProblem({ ...NO_CALIBRATION, offsetYMm: 25 })).toContain('zero mark');
+    expect(findCalibrationProblem({ ...NO_CALIBRATION, scaleY: NaN })).toBe('Please fill in all measurements.');
+  });
+});
@@ -0,0 +1,86 @@
+import { CALIBRATION_MARK_MM, CalibrationMeasurements, PrinterCalibration } from '../models/calibration.model';
+
+// Printers that are further off than this are misconfigured rather than imprecise
+const MAX_SCALE_DEVIATION = 0.2;
+const MAX_OFFSET_MM = 20;
+
+/**
+ * Length of a calibration ruler: whole centimetres between the zero mark and the same margin on the far side
+ */
+export function calibrationRulerLength(paperSizeMm: number): number {
+  return Math.max(10, Math.floor((paperSizeMm - 2 * CALIBRATION_MARK_MM) / 10) * 10);
+}
+
+/**
+ * Printer calibration from the measurements of a calibration sheet printed without correction
+ */
+export function calibrationFromMeasurements(
+  measurements: CalibrationMeasurements,
+  rulerXMm: number,
+  rulerYMm: number
+): PrinterCalibration {
+  const scaleX = measurements.rulerXMm / rulerXMm;
+  const scaleY = measurements.rulerYMm / rulerYMm;
+  return {
+    scaleX,
+    scaleY,
+    offsetXMm: measurements.markXMm - CALIBRATION_MARK_MM * scaleX,
+    offsetYMm: measurements.markYMm - CALIBRATION_MARK_MM * scaleY
+  };
+}
+
+/**
+ * The measurements a calibration sheet shows for a printer, to edit a saved calibration
+ */
+export function measurementsFromCalibration(
+  calibration: PrinterCalibration,
+  rulerXMm: number,
+  rulerYMm: number
+): CalibrationMeasurements {
+  return {
+    rulerXMm: rulerXMm * calibration.scaleX,
+    rulerYMm: rulerYMm * calibration.scaleY,
+    markXMm: CALIBRATION_MARK_MM * calibration.scaleX + calibration.offsetXMm,
+    markYMm: CALIBRATION_MARK_MM * calibration.scaleY + calibration.offsetYMm
+  };
+}
+
+/**
+ * Check a calibration, returns a message for the user or null if it can be used
+ */
+export function findCalibrationProblem(calibration: PrinterCalibration): string | null {
+  const { scaleX, scaleY, offsetXMm, offsetYMm } = calibration;
+  if (![scaleX, scaleY, offsetXMm, offsetYMm].every(Number.isFinite)) {
+    return 'Please fill in all measurements.';
+  }
+  if (Math.abs(scaleX - 1) > MAX_SCALE_DEVIATION || Math.abs(scaleY - 1) > MAX_SCALE_DEVIATION) {
+    return 'The rulers are more than 20% off. Please check the measurements and disable "fit to page" in the print dialog.';
+  }
+  if (Math.abs(offsetXMm) > MAX_OFFSET_MM || Math.abs(offsetYMm) > MAX_OFFSET_MM) {
+    return `The zero mark is more than ${MAX_OFFSET_MM} mm off. Please check the measurements and set the print margins to none.`;
+  }
+  return null;
+}
+
+export function isCalibrated(calibration: PrinterCalibration): boolean {
+  return calibration.scaleX !== 1 || calibration.scaleY !== 1 || calibration.offsetXMm !== 0 || calibration.offsetYMm !== 0;
+}
+
+/**
+ * The transform that cancels a printer's distortion: requested positions are scaled
+ * and shifted the opposite way, so the printer puts them where they belong.
+ * Applied as position × scale + translate (mm).
+ */
+export function calibrationCorrection(calibration: PrinterCalibration): {
+  scaleX: number;
+  scaleY: number;
+  translateXMm: number;
+  translateYMm: number;
+} {
+  return {
+    scaleX: 1 / calibration.scaleX,
+    scaleY: 1 / calibration.scaleY,
+    translateXMm: -calibration.offsetXMm / calibration.scaleX,
+    translateYMm: -calibration.offsetYMm / calibration.scaleY
+  };
+}
@@ -0,0 +1,64 @@
+import { DEFAULT_CAPTION } from '../models/caption.model';
+import { hasCaptionText, layoutCaption, TextMeasurer } from './caption-layout';
+
+describe('caption layout', () => {
+  // Every glyph is half as wide as the font size
+  const measure: TextMeasurer = (text, style) => text.length * style.fontSizeMm * 0.5;
+
+  it('should ignore captions without text', () => {
+    expect(hasCaptionText(null)).toBeFalse();
+    expect(hasCaptionText({ ...DEFAULT_CAPTION, title: '  ' })).toBeFalse();
+    expect(hasCaptionText({ ...DEFAULT_CAPTION, episode: '3' })).toBeTrue();
+  });
+
+  it('should stack title and episode line inside the bottom band', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'Title', episode: '3', subtitle: 'Sub', bandColor: '#000000' };
+    const layout = layoutCaption(caption, 40, 40, 'rectangular', measure);
+
+    expect(layout.lines.map(line => line.text)).toEqual(['Title', '3 · Sub']);
+    expect(layout.lines[0].y).toBeLessThan(layout.lines[1].y);
+    expect(layout.lines[1].y).toBeLessThan(40);
+    expect(layout.band!.y + layout.band!.height).toBeCloseTo(40);
+    expect(layout.warnings).toEqual([]);
+  });
+
+  it('should extend the band into the bleed but keep the text inside the cut area', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'Title', position: 'top' as const, bandColor: '#000000' };
+    const layout = layoutCaption(caption, 40, 40, 'rectangular', measure, 2);
+
+    expect(layout.band!.y).toBe(-2);
+    expect(layout.lines[0].y).toBeGreaterThan(0);
+  });
+
+  it('should warn when a line is wider than the cover', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'A very long title that cannot fit', position: 'top' as const };
+    const layout = layoutCaption(caption, 40, 40, 'rectangular', measure);
+
+    expect(layout.lines[0].y).toBeLessThan(20);
+    expect(layout.warnings.length).toBe(1);
+  });
+
+  it('should use the narrower width near the edge of round covers', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'Fifteen letters' };
+
+    expect(layoutCaption(caption, 40, 40, 'rectangular', measure).warnings).toEqual([]);
+    expect(layoutCaption(caption, 40, 40, 'round', measure).warnings.length).toBe(1);
+  });
+
+  it('should curve the title along the top and the episode along the bottom of round covers', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'Title', episode: '3', position: 'curved' as const };
+    const layout = layoutCaption(caption, 40, 40, 'round', measure);
+
+    expect(layout.lines).toEqual([]);
+    expect(layout.arcs.map(arc => arc.side)).toEqual(['top', 'bottom']);
+    expect(layout.arcs.every(arc => arc.radius < 20)).toBeTrue();
+  });
+
+  it('should fall back to a band for curved captions on rectangular covers', () => {
+    const caption = { ...DEFAULT_CAPTION, title: 'Title', position: 'curved' as const };
+    const layout = layoutCaption(caption, 40, 40, 'rectangular', measure);
+
+    expect(layout.arcs).toEqual([]);
+    expect(layout.lines.length).toBe(1);
+  });
+});
@@ -0,0 +1,322 @@
+import { CoverCaption } from '../models/caption.model';
+
+export interface CaptionTextStyle {
+  fontFamily: string;
+  fontSizeMm: number;
+  fontWeight: number;
+}
+
+// Text line centered on x, y is the baseline (mm)
+export interface CaptionLine extends CaptionTextStyle {
+  text: string;
+  x: number;
+  y: number;
+}
+
+// Text centered on the top or bottom of a circle around the cover center, radius is the baseline (mm)
+export interface CaptionArc extends CaptionTextStyle {
+  text: string;
+  side: 'top' | 'bottom';
+  radius: number;
+}
+
+export interface CaptionLayout {
+  // Cut area, all positions are relative to its top left corner
+  widthMm: number;
+  heightMm: number;
+  // Bands reach into the bleed so no picture shows at their outer edge
+  bleedMm: number;
+  band: { y: number; height: number } | null;
+  lines: CaptionLine[];
+  arcs: CaptionArc[];
+  // The outline is drawn below the fill, so only its outer half is visible
+  strokeWidthMm: number;
+  warnings: string[];
+}
+
+// Returns the advance width of a text in mm
+export type TextMeasurer = (text: string, style: CaptionTextStyle) => number;
+
+const PT_TO_MM = 25.4 / 72;
+
+// Distance between text and the cut line
+const EDGE_INSET_MM = 1.5;
+const SIDE_INSET_MM = 1;
+const BAND_PADDING_MM = 0.5;
+
+// Approximate font metrics relative to the font size, used for both preview and export
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+const LINE_HEIGHT = 1.2;
+
+const SECONDARY_SCALE = 0.75;
+
+// Curved text longer than this would run down the sides of the cover
+const MAX_ARC_ANGLE = 140 * Math.PI / 180;
+
+interface CaptionText extends CaptionTextStyle {
+  text: string;
+  label: string;
+  role: 'title' | 'secondary';
+}
+
+/**
+ * Whether a caption has any text to print
+ */
+export function hasCaptionText(caption: CoverCaption | null | undefined): caption is CoverCaption {
+  return !!caption && [caption.title, caption.episode, caption.subtitle].some(text => text.trim().length > 0);
+}
+
+/**
+ * Place the caption texts inside a cover of the given size (mm).
+ * Preview, print and export all draw from this layout so they look the same.
+ */
+export function layoutCaption(
+  caption: CoverCaption,
+  widthMm: number,
+  heightMm: number,
+  shape: 'rectangular' | 'round',
+  measure: TextMeasurer,
+  bleedMm = 0
+): CaptionLayout {
+  const layout: CaptionLayout = {
+    widthMm,
+    heightMm,
+    bleedMm,
+    band: null,
+    lines: [],
+    arcs: [],
+    strokeWidthMm: caption.outlineWidthPt * PT_TO_MM * 2,
+    warnings: []
+  };
+
+  const texts = getCaptionTexts(caption);
+  if (texts.length === 0) {
+    return layout;
+  }
+
+  if (caption.position === 'curved' && shape === 'round') {
+    layoutArcs(layout, texts, measure);
+  } else {
+    layoutBand(layout, texts, caption.position === 'top' ? 'top' : 'bottom', shape, measure);
+  }
+
+  if (caption.bandColor === null) {
+    layout.band = null;
+  }
+
+  return layout;
+}
+
+/**
+ * SVG path of the circle a curved text runs on, starting opposite of its side
+ * so the text can be centered with startOffset="50%"
+ */
+export function captionArcPath(arc: CaptionArc, layout: CaptionLayout): string {
+  const cx = layout.widthMm / 2;
+  const cy = layout.heightMm / 2;
+  const r = arc.radius;
+
+  // Clockwise from the bottom for text on top, counterclockwise from the top for text at the bottom,
+  // so the glyphs stand upright in both cases
+  return arc.side === 'top'
+    ? `M ${cx} ${cy + r} A ${r} ${r} 0 1 1 ${cx} ${cy - r} A ${r} ${r} 0 1 1 ${cx} ${cy + r}`
+    : `M ${cx} ${cy - r} A ${r} ${r} 0 1 0 ${cx} ${cy + r} A ${r} ${r} 0 1 0 ${cx} ${cy - r}`;
+}
+
+/**
+ * CSS font shorthand for canvas text at the given resolution
+ */
+export function captionFont(style: CaptionTextStyle, pxPerMm: number): string {
+  return `${style.fontWeight} ${style.fontSizeMm * pxPerMm}px ${style.fontFamily}`;
+}
+
+/**
+ * Measure text with a 2D canvas, which uses the same fonts as the preview
+ */
+export function createCanvasTextMeasurer(): TextMeasurer {
+  const ctx = document.createElement('canvas').getContext('2d');
+  const REFERENCE_SIZE_PX = 100;
+
+  return (text, style) => {
+    if (!ctx) {
+      // Rough average glyph width as a fallback
+      return text.length * style.fontSizeMm * 0.55;
+    }
+    ctx.font = captionFont(style, REFERENCE_SIZE_PX / style.fontSizeMm);
+    return ctx.measureText(text).width * style.fontSizeMm / REFERENCE_SIZE_PX;
+  };
+}
+
+/**
+ * Draw a caption layout onto a canvas whose origin is the top left corner of the image area (cut area plus bleed)
+ */
+export function drawCaption(ctx: CanvasRenderingContext2D, layout: CaptionLayout, caption: CoverCaption, pxPerMm: number): void {
+  ctx.save();
+  ctx.translate(layout.bleedMm * pxPerMm, layout.bleedMm * pxPerMm);
+
+  if (layout.band && caption.bandColor) {
+    ctx.fillStyle = caption.bandColor;
+    ctx.fillRect(
+      -layout.bleedMm * pxPerMm,
+      layout.band.y * pxPerMm,
+      (layout.widthMm + 2 * layout.bleedMm) * pxPerMm,
+      layout.band.height * pxPerMm
+    );
+  }
+
+  ctx.fillStyle = caption.color;
+  ctx.strokeStyle = caption.outlineColor;
+  ctx.lineWidth = layout.strokeWidthMm * pxPerMm;
+  ctx.lineJoin = 'round';
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'center';
+
+  const paint = (text: string, x: number, y: number) => {
+    if (layout.strokeWidthMm > 0) {
+      ctx.strokeText(text, x, y);
+    }
+    ctx.fillText(text, x, y);
+  };
+
+  layout.lines.forEach(line => {
+    ctx.font = captionFont(line, pxPerMm);
+    paint(line.text, line.x * pxPerMm, line.y * pxPerMm);
+  });
+
+  const cx = layout.widthMm / 2 * pxPerMm;
+  const cy = layout.heightMm / 2 * pxPerMm;
+
+  layout.arcs.forEach(arc => {
+    ctx.font = captionFont(arc, pxPerMm);
+    const radius = arc.radius * pxPerMm;
+    const widths = [...arc.text].map(char => ctx.measureText(char).width);
+    const total = widths.reduce((sum, width) => sum + width, 0);
+
+    // Walk along the circle one glyph at a time, clockwise on top and counterclockwise at the bottom
+    const direction = arc.side === 'top' ? 1 : -1;
+    let angle = (arc.side === 'top' ? -Math.PI / 2 : Math.PI / 2) - direction * total / radius / 2;
+
+    [...arc.text].forEach((char, index) => {
+      const center = angle + direction * widths[index] / radius / 2;
+      ctx.save();
+      ctx.translate(cx + radius * Math.cos(center), cy + radius * Math.sin(center));
+      ctx.rotate(center + direction * Math.PI / 2);
+      paint(char, 0, 0);
+      ctx.restore();
+      angle += direction * widths[index] / radius;
+    });
+  });
+
+  ctx.restore();
+}
+
+function getCaptionTexts(caption: CoverCaption): CaptionText[] {
+  const titleSizeMm = caption.fontSizePt * PT_TO_MM;
+  const secondary = [caption.episode.trim(), caption.subtitle.trim()].filter(text => text).join(' · ');
+
+  const texts: CaptionText[] = [];
+  if (caption.title.trim()) {
+    texts.push({
+      text: caption.title.trim(),
+      label: 'The title',
+      role: 'title',
+      fontFamily: caption.fontFamily,
+      fontSizeMm: titleSizeMm,
+      fontWeight: 700
+    });
+  }
+  if (secondary) {
+    texts.push({
+      text: secondary,
+      label: 'Episode and subtitle',
+      role: 'secondary',
+      fontFamily: caption.fontFamily,
+      fontSizeMm: titleSizeMm * SECONDARY_SCALE,
+      fontWeight: 400
+    });
+  }
+  return texts;
+}
+
+function layoutBand(
+  layout: CaptionLayout,
+  texts: CaptionText[],
+  side: 'top' | 'bottom',
+  shape: 'rectangular' | 'round',
+  measure: TextMeasurer
+): void {
+  const { widthMm, heightMm } = layout;
+
+  // Round covers are narrow near the edge, so the band moves further in
+  const inset = shape === 'round' ? Math.max(EDGE_INSET_MM, heightMm * 0.1) : EDGE_INSET_MM;
+  const blockHeight = texts.reduce((sum, text) => sum + text.fontSizeMm * LINE_HEIGHT, 0);
+
+  let y = side === 'top' ? inset : heightMm - inset - blockHeight;
+  const bleed = layout.bleedMm;
+  layout.band = side === 'top'
+    ? { y: -bleed, height: bleed + inset + blockHeight + BAND_PADDING_MM }
+    : { y: y - BAND_PADDING_MM, height: heightMm - y + BAND_PADDING_MM + bleed };
+
+  if (blockHeight + inset > heightMm) {
+    layout.warnings.push('The caption is taller than the cover and will be clipped.');
+  }
+
+  texts.forEach(text => {
+    const top = y + (LINE_HEIGHT - 1) * text.fontSizeMm / 2;
+    const baseline = top + ASCENT * text.fontSizeMm;
+    const bottom = baseline + DESCENT * text.fontSizeMm;
+    y += text.fontSizeMm * LINE_HEIGHT;
+
+    layout.lines.push({
+      text: text.text,
+      x: widthMm / 2,
+      y: baseline,
+      fontFamily: text.fontFamily,
+      fontSizeMm: text.fontSizeMm,
+      fontWeight: text.fontWeight
+    });
+
+    // The narrowest part of a round cover is the line edge closest to the cut line
+    let available = widthMm - 2 * SIDE_INSET_MM;
+    if (shape === 'round') {
+      const radius = widthMm / 2;
+      const distance = Math.max(Math.abs(top - radius), Math.abs(bottom - radius));
+      available = 2 * Math.sqrt(Math.max(0, radius * radius - distance * distance)) - 2 * SIDE_INSET_MM;
+    }
+
+    if (measure(text.text, text) > available) {
+      layout.warnings.push(`${text.label} is too wide for the cover and will be clipped.`);
+    }
+  });
+}
+
+function layoutArcs(layout: CaptionLayout, texts: CaptionText[], measure: TextMeasurer): void {
+  const outerRadius = layout.widthMm / 2;
+
+  texts.forEach(text => {
+    // The title runs along the top edge, episode and subtitle along the bottom edge
+    const side = text.role === 'title' ? 'top' : 'bottom';
+    const radius = side === 'top'
+      ? outerRadius - EDGE_INSET_MM - ASCENT * text.fontSizeMm
+      : outerRadius - EDGE_INSET_MM - DESCENT * text.fontSizeMm;
+
+    if (radius <= 0) {
+      layout.warnings.push(`${text.label} is too large for the cover and will be clipped.`);
+      return;
+    }
+
+    layout.arcs.push({
+      text: text.text,
+      side,
+      radius,
+      fontFamily: text.fontFamily,
+      fontSizeMm: text.fontSizeMm,
+      fontWeight: text.fontWeight
+    });
+
+    if (measure(text.text, text) > radius * MAX_ARC_ANGLE) {
+      layout.warnings.push(`${text.label} is too long for the curved edge. Shorten it or use a smaller font.`);
+    }
+  });
+}
@@ -0,0 +1,27 @@
+import { code128Values, encodeCode128 } from './code128';
+
+describe('Code 128', () => {
+  it('should encode text in code set B with a check symbol', () => {
+    // Start B, P J J 1 2 3 C and (104 + 48 + 2*42 + 3*42 + 4*17 + 5*18 + 6*19 + 7*35) % 103
+    expect(code128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55]);
+  });
+
+  it('should pack digit pairs into code set C', () => {
+    expect(code128Values('123456')).toEqual([105, 12, 34, 56, (105 + 12 + 2 * 34 + 3 * 56) % 103]);
+    expect(code128Values('12345')?.[0]).toBe(104);
+  });
+
+  it('should reject text outside printable ASCII', () => {
+    expect(code128Values('Grüße')).toBeNull();
+    expect(encodeCode128('')).toBeNull();
+  });
+
+  it('should draw 11 modules per symbol and 13 for the stop pattern', () => {
+    const modules = encodeCode128('PJJ123C') as boolean[];
+
+    expect(modules.length).toBe(9 * 11 + 13);
+    // Start B: bar 2, space 1, bar 1, space 2, bar 1, space 4
+    expect(modules.slice(0, 11).map(bar => bar ? 1 : 0).join('')).toBe('11010010000');
+    expect(modules[modules.length - 1]).toBeTrue();
+  });
+});
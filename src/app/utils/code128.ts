@@ -0,0 +1,62 @@
+/**
+ * Code 128 barcode encoder. Text uses code set B (printable ASCII);
+ * digit-only text of even length uses the denser code set C.
+ */
+
+// Bar and space widths of symbol values 0 to 106 (106 is the stop pattern)
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+export const CODE128_QUIET_ZONE = 10;
+
+/**
+ * Symbol values including start and check symbol, or null for text outside printable ASCII
+ */
+export function code128Values(text: string): number[] | null {
+  if (!text || !/^[\x20-\x7e]*$/.test(text)) {
+    return null;
+  }
+
+  const values = /^(\d\d)+$/.test(text)
+    ? [START_C, ...(text.match(/\d\d/g) as string[]).map(pair => Number(pair))]
+    : [START_B, ...Array.from(text, char => char.charCodeAt(0) - 32)];
+
+  // Weighted sum of all symbols, the start symbol counting once
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(1, index), 0) % 103;
+  return [...values, checksum];
+}
+
+/**
+ * Modules of the barcode from the first to the last bar (true is a bar), or null when the text can't be encoded
+ */
+export function encodeCode128(text: string): boolean[] | null {
+  const values = code128Values(text);
+  if (!values) {
+    return null;
+  }
+
+  const modules: boolean[] = [];
+  for (const pattern of [...values, STOP].map(value => PATTERNS[value])) {
+    Array.from(pattern).forEach((width, index) => {
+      for (let i = 0; i < Number(width); i++) {
+        modules.push(index % 2 === 0);
+      }
+    });
+  }
+  return modules;
+}
@@ -0,0 +1,61 @@
+import { CodeSymbol, CoverCode, DEFAULT_COVER_CODE } from '../models/cover-code.model';
+import { codePath, codeRects, encodeCoverCode, findCodeProblem, layoutCoverCode, minimumModuleMm } from './cover-code';
+
+describe('cover code', () => {
+  const code = (changes: Partial<CoverCode>): CoverCode => ({ ...DEFAULT_COVER_CODE, text: 'E0:04:03:50:0E:12:34:56', ...changes });
+  const symbol = (value: CoverCode) => encodeCoverCode(value.kind, value.text) as CodeSymbol;
+
+  it('should place corner codes inside the cut line', () => {
+    const value = code({ placement: 'bottom-right', sizeMm: 14 });
+    const layout = layoutCoverCode(symbol(value), value, 44, 44, 'rectangular');
+
+    expect(layout.x).toBeCloseTo(44 - 1.5 - 14, 6);
+    expect(layout.y).toBeCloseTo(44 - 1.5 - 14, 6);
+    expect(layout.fits).toBeTrue();
+  });
+
+  it('should put the outer corner on the circle of round covers', () => {
+    const value = code({ placement: 'top-left', sizeMm: 12 });
+    const layout = layoutCoverCode(symbol(value), value, 44, 44, 'round');
+
+    expect(Math.hypot(layout.x - 22, layout.y - 22)).toBeCloseTo(22 - 1.5, 6);
+    expect(layout.fits).toBeTrue();
+  });
+
+  it('should fill the largest square inside a round cover', () => {
+    const value = code({ placement: 'fill' });
+    const layout = layoutCoverCode(symbol(value), value, 44, 44, 'round');
+
+    expect(layout.width).toBeCloseTo(41 / Math.SQRT2, 6);
+    expect(layout.x + layout.width / 2).toBeCloseTo(22, 6);
+    expect(layout.fits).toBeTrue();
+  });
+
+  it('should report codes that are too large or too small', () => {
+    expect(findCodeProblem(code({ kind: 'code128', text: 'Grüße' }), 44, 44, 'round')).toContain('without accents');
+
+    const large = code({ sizeMm: 34 });
+    expect(findCodeProblem(large, 44, 44, 'round')).toContain('does not fit');
+
+    // Version 2 with its quiet zone is 33 modules wide
+    const small = code({ sizeMm: 9 });
+    const problem = findCodeProblem(small, 44, 44, 'rectangular');
+    expect(problem).toContain(`at least ${Math.ceil(minimumModuleMm('qr') * 33 * 10) / 10} mm wide`);
+
+    const fine = code({ sizeMm: 14 });
+    expect(findCodeProblem(fine, 44, 44, 'rectangular')).toBeNull();
+  });
+
+  it('should merge neighbouring bars into one rectangle', () => {
+    const value = code({ kind: 'code128', text: '0042' });
+    const barcode = symbol(value);
+    const layout = layoutCoverCode(barcode, value, 44, 44, 'rectangular');
+    const rects = codeRects(barcode, layout);
+
+    // Every symbol has three bars, the stop pattern four
+    expect(rects.length).toBe(4 * 3 + 4);
+    expect(rects[0].width).toBeCloseTo(2 * layout.moduleMm, 6);
+    expect(rects[0].height).toBeCloseTo(layout.rowMm, 6);
+    expect(codePath(rects.slice(0, 1))).toMatch(/^M[\d.]+ [\d.]+h[\d.]+v[\d.]+h-[\d.]+z$/);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  BARCODE_HEIGHT_RATIO, CODE_INSET_MM, CODE_PRINT_DPI, CodeLayout, CodeSymbol, CoverCode, CoverCodeKind, MIN_DOTS_PER_MODULE
+} from '../models/cover-code.model';
+import { PlaceholderShape } from '../models/sheet.model';
+import { CODE128_QUIET_ZONE, encodeCode128 } from './code128';
+import { encodeQrCode, QR_QUIET_ZONE } from './qr-code';
+
+// A dark area of a code in mm relative to the cut area
+export interface CodeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Recently encoded codes: the preview, the editor and the preflight check ask for the same codes again and again
+const symbolCache = new Map<string, CodeSymbol | null>();
+const SYMBOL_CACHE_SIZE = 100;
+
+/**
+ * Encode the text of a code, null when there is no text or it can't be encoded
+ */
+export function encodeCoverCode(kind: CoverCodeKind, text: string): CodeSymbol | null {
+  if (!text) {
+    return null;
+  }
+
+  const key = `${kind}:${text}`;
+  if (symbolCache.has(key)) {
+    return symbolCache.get(key) as CodeSymbol | null;
+  }
+
+  let symbol: CodeSymbol | null;
+  if (kind === 'qr') {
+    const modules = encodeQrCode(text);
+    symbol = modules ? { modules, quietZone: QR_QUIET_ZONE } : null;
+  } else {
+    const bars = encodeCode128(text);
+    symbol = bars ? { modules: [bars], quietZone: CODE128_QUIET_ZONE } : null;
+  }
+
+  if (symbolCache.size >= SYMBOL_CACHE_SIZE) {
+    symbolCache.delete(symbolCache.keys().next().value as string);
+  }
+  symbolCache.set(key, symbol);
+  return symbol;
+}
+
+/**
+ * Position and module size of a code on a cover with the given cut area.
+ * Corner codes keep a small distance to the cut line; on round covers the outer corner sits on the circle.
+ * Codes on the back side are centred like codes filling the cover, but keep their size.
+ */
+export function layoutCoverCode(
+  symbol: CodeSymbol,
+  code: CoverCode,
+  widthMm: number,
+  heightMm: number,
+  shape: PlaceholderShape
+): CodeLayout {
+  const columns = symbol.modules[0].length + 2 * symbol.quietZone;
+  const barcode = symbol.modules.length === 1;
+  // Height of the box relative to its width
+  const ratio = barcode ? BARCODE_HEIGHT_RATIO : (symbol.modules.length + 2 * symbol.quietZone) / columns;
+  const inset = CODE_INSET_MM;
+
+  let width = code.sizeMm;
+  if (code.placement === 'fill') {
+    width = shape === 'round'
+      ? (widthMm - 2 * inset) / Math.sqrt(1 + ratio * ratio)
+      : Math.min(widthMm - 2 * inset, (heightMm - 2 * inset) / ratio);
+  }
+  const height = width * ratio;
+
+  let x = (widthMm - width) / 2;
+  let y = (heightMm - height) / 2;
+  if (code.placement !== 'fill' && code.placement !== 'back') {
+    const [vertical, horizontal] = code.placement.split('-');
+    if (shape === 'round') {
+      // Outer corner of the box on the circle, on the diagonal through the centre
+      const diagonal = (widthMm / 2 - inset) / Math.SQRT2;
+      const cornerX = horizontal === 'left' ? widthMm / 2 - diagonal : widthMm / 2 + diagonal;
+      const cornerY = vertical === 'top' ? heightMm / 2 - diagonal : heightMm / 2 + diagonal;
+      x = horizontal === 'left' ? cornerX : cornerX - width;
+      y = vertical === 'top' ? cornerY : cornerY - height;
+    } else {
+      x = horizontal === 'left' ? inset : widthMm - inset - width;
+      y = vertical === 'top' ? inset : heightMm - inset - height;
+    }
+  }
+
+  const moduleMm = width / columns;
+  const rowMm = barcode ? height - 2 * symbol.quietZone * moduleMm : moduleMm;
+
+  const corners = [[x, y], [x + width, y], [x, y + height], [x + width, y + height]];
+  const tolerance = 1e-6;
+  const fits = width > 0 && rowMm > 0 && corners.every(([cornerX, cornerY]) => shape === 'round'
+    ? Math.hypot(cornerX - widthMm / 2, cornerY - heightMm / 2) <= widthMm / 2 + tolerance
+    : cornerX >= -tolerance && cornerY >= -tolerance && cornerX <= widthMm + tolerance && cornerY <= heightMm + tolerance);
+
+  return { x, y, width, height, moduleMm, rowMm, fits };
+}
+
+/**
+ * Dark areas of a code, neighbouring modules of a row merged into one rectangle
+ */
+export function codeRects(symbol: CodeSymbol, layout: CodeLayout): CodeRect[] {
+  const rects: CodeRect[] = [];
+  const quiet = symbol.quietZone * layout.moduleMm;
+
+  symbol.modules.forEach((row, rowIndex) => {
+    let start = -1;
+    for (let column = 0; column <= row.length; column++) {
+      const dark = column < row.length && row[column];
+      if (dark && start < 0) {
+        start = column;
+      } else if (!dark && start >= 0) {
+        rects.push({
+          x: layout.x + quiet + start * layout.moduleMm,
+          y: layout.y + quiet + rowIndex * layout.rowMm,
+          width: (column - start) * layout.moduleMm,
+          height: layout.rowMm
+        });
+        start = -1;
+      }
+    }
+  });
+  return rects;
+}
+
+/**
+ * SVG path of the dark areas, one element for the whole code
+ */
+export function codePath(rects: CodeRect[]): string {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return rects.map(rect => `M${round(rect.x)} ${round(rect.y)}h${round(rect.width)}v${round(rect.height)}h${round(-rect.width)}z`).join('');
+}
+
+// Smallest module that still prints sharp enough to scan (mm)
+export function minimumModuleMm(kind: CoverCodeKind): number {
+  return MIN_DOTS_PER_MODULE[kind] / CODE_PRINT_DPI * 25.4;
+}
+
+/**
+ * Why a code won't print or scan reliably on a cover with the given cut area, or null if it is fine
+ */
+export function findCodeProblem(code: CoverCode, widthMm: number, heightMm: number, shape: PlaceholderShape): string | null {
+  if (!code.text) {
+    return 'Enter the text or link of the code.';
+  }
+  const symbol = encodeCoverCode(code.kind, code.text);
+  if (!symbol) {
+    return code.kind === 'qr'
+      ? 'The text is too long for a QR code.'
+      : 'Code 128 only holds letters, digits and common symbols without accents.';
+  }
+  const layout = layoutCoverCode(symbol, code, widthMm, heightMm, shape);
+  if (!layout.fits) {
+    return 'The code does not fit on the cover. Make it smaller.';
+  }
+
+  const minimum = minimumModuleMm(code.kind);
+  if (layout.moduleMm < minimum - 1e-9) {
+    const neededMm = Math.ceil(minimum * layout.width / layout.moduleMm * 10) / 10;
+    const remedy = code.placement === 'fill' ? 'Shorten the text' : `Make it at least ${neededMm} mm wide or shorten the text`;
+    return `Modules are ${layout.moduleMm.toFixed(2)} mm, at least ${minimum.toFixed(2)} mm are needed to scan at ${CODE_PRINT_DPI} DPI. ${remedy}.`;
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+import { DEFAULT_COVER_BACK } from '../models/back-side.model';
+import { SheetSlot } from '../models/sheet.model';
+import { mirrorSlot, printSequence, resolveBackText } from './duplex';
+
+describe('duplex printing', () => {
+  const slot: SheetSlot = { left: 4, top: 10, width: 40, height: 40, shape: 'round' };
+
+  it('should mirror left and right when portrait paper is turned over the long edge', () => {
+    expect(mirrorSlot(slot, 100, 150, 'long-edge')).toEqual({ ...slot, left: 56 });
+  });
+
+  it('should mirror top and bottom when portrait paper is turned over the short edge', () => {
+    expect(mirrorSlot(slot, 100, 150, 'short-edge')).toEqual({ ...slot, top: 100 });
+  });
+
+  it('should swap the mirror axis for landscape paper', () => {
+    expect(mirrorSlot(slot, 150, 100, 'long-edge')).toEqual({ ...slot, top: 50 });
+    expect(mirrorSlot(slot, 150, 100, 'short-edge')).toEqual({ ...slot, left: 106 });
+  });
+
+  it('should generate the back text from the title and content name', () => {
+    expect(resolveBackText(DEFAULT_COVER_BACK, 'Folge 12', 'Benjamin Blümchen')).toBe('Folge 12\nBenjamin Blümchen');
+    expect(resolveBackText(DEFAULT_COVER_BACK, 'Benjamin Blümchen', 'Benjamin Blümchen')).toBe('Benjamin Blümchen');
+    expect(resolveBackText(DEFAULT_COVER_BACK, '', null)).toBe('');
+  });
+
+  it('should prefer custom back text', () => {
+    expect(resolveBackText({ ...DEFAULT_COVER_BACK, text: ' For Mia ' }, 'Folge 12', null)).toBe('For Mia');
+  });
+
+  it('should interleave fronts and backs for duplex printers', () => {
+    expect(printSequence(2, true, 'both')).toEqual([
+      { pageIndex: 0, side: 'front' },
+      { pageIndex: 0, side: 'back' },
+      { pageIndex: 1, side: 'front' },
+      { pageIndex: 1, side: 'back' }
+    ]);
+  });
+
+  it('should print one side at a time for turning the stack by hand', () => {
+    expect(printSequence(2, true, 'backs').map(side => side.side)).toEqual(['back', 'back']);
+    expect(printSequence(2, true, 'fronts').map(side => side.side)).toEqual(['front', 'front']);
+  });
+
+  it('should print only fronts without back sides', () => {
+    expect(printSequence(2, false, 'backs')).toEqual([{ pageIndex: 0, side: 'front' }, { pageIndex: 1, side: 'front' }]);
+  });
+});
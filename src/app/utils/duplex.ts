@@ -0,0 +1,48 @@
+import { CoverBack, DuplexFlip, PrintedSide, PrintSides } from '../models/back-side.model';
+import { SheetSlot } from '../models/sheet.model';
+
+/**
+ * Whether the back of a sheet is mirrored left-right (true) or top-bottom (false).
+ * Turning portrait paper over its long edge swaps left and right, landscape paper swaps top and bottom.
+ */
+export function mirrorsHorizontally(paperWidthMm: number, paperHeightMm: number, flip: DuplexFlip): boolean {
+  return (flip === 'long-edge') === (paperHeightMm >= paperWidthMm);
+}
+
+/**
+ * Position of a slot on the back sheet, so it is printed exactly behind the front
+ */
+export function mirrorSlot<T extends SheetSlot>(slot: T, paperWidthMm: number, paperHeightMm: number, flip: DuplexFlip): T {
+  return mirrorsHorizontally(paperWidthMm, paperHeightMm, flip)
+    ? { ...slot, left: paperWidthMm - slot.left - slot.width }
+    : { ...slot, top: paperHeightMm - slot.top - slot.height };
+}
+
+/**
+ * Text of a text back: the custom text, otherwise the cover's title and TeddyCloud content name
+ */
+export function resolveBackText(back: CoverBack, title: string, contentName: string | null): string {
+  if (back.text.trim()) {
+    return back.text.trim();
+  }
+
+  const lines = [title.trim(), (contentName ?? '').trim()].filter(line => line);
+  // TeddyCloud titles are often used as caption title as well
+  return [...new Set(lines)].join('\n');
+}
+
+/**
+ * Sheet sides in the order they are printed; a duplex printer gets every front followed by its back
+ */
+export function printSequence(pageCount: number, hasBacks: boolean, sides: PrintSides): PrintedSide[] {
+  const sequence: PrintedSide[] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    if (!hasBacks || sides !== 'backs') {
+      sequence.push({ pageIndex, side: 'front' });
+    }
+    if (hasBacks && sides !== 'fronts') {
+      sequence.push({ pageIndex, side: 'back' });
+    }
+  }
+  return sequence;
+}
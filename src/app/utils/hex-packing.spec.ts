@@ -0,0 +1,43 @@
+import { packCirclesHex } from './hex-packing';
+
+describe('hex packing', () => {
+  const smallestDistance = (positions: { x: number; y: number }[]) => {
+    let smallest = Infinity;
+    positions.forEach((a, i) => positions.slice(i + 1).forEach(b => {
+      smallest = Math.min(smallest, Math.hypot(a.x - b.x, a.y - b.y));
+    }));
+    return smallest;
+  };
+
+  it('should fit more circles than a square grid on a large sheet', () => {
+    // A4 minus 4 mm margins, 30 mm covers with 2 mm spacing: the square grid holds 6 × 9 = 54
+    const positions = packCirclesHex(202, 289, 30, 2);
+
+    expect(positions.length).toBe(60);
+  });
+
+  it('should keep the spacing as the minimum gap between circle edges', () => {
+    const positions = packCirclesHex(202, 289, 30, 2);
+
+    expect(smallestDistance(positions)).toBeCloseTo(32);
+  });
+
+  it('should keep every circle inside the area and centre the packing', () => {
+    const positions = packCirclesHex(100, 100, 30, 2);
+    const left = Math.min(...positions.map(p => p.x));
+    const right = Math.max(...positions.map(p => p.x)) + 30;
+
+    expect(positions.every(p => p.x >= 0 && p.y >= 0 && p.x + 30 <= 100 && p.y + 30 <= 100)).toBeTrue();
+    expect(left).toBeCloseTo(100 - right);
+  });
+
+  it('should return positions in reading order', () => {
+    const positions = packCirclesHex(202, 289, 30, 2);
+
+    expect(positions.every((p, i) => i === 0 || p.y > positions[i - 1].y || (p.y === positions[i - 1].y && p.x > positions[i - 1].x))).toBeTrue();
+  });
+
+  it('should return nothing if a single circle does not fit', () => {
+    expect(packCirclesHex(20, 100, 30, 2)).toEqual([]);
+  });
+});
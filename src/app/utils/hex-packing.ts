@@ -0,0 +1,59 @@
+// Top left corner of a circle's bounding box (mm)
+export interface PackedPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pack circles into a rectangle with staggered rows (hexagonal packing).
+ * Neighbouring circles are exactly `diameter + spacing` apart from centre to centre,
+ * so `spacing` is the gap between the edges in every direction.
+ * Staggered rows and staggered columns are both tried and the one fitting more circles wins.
+ * Positions are centred in the area and sorted in reading order.
+ */
+export function packCirclesHex(width: number, height: number, diameter: number, spacing: number): PackedPosition[] {
+  const byRows = packStaggeredRows(width, height, diameter, spacing);
+  const byColumns = packStaggeredRows(height, width, diameter, spacing).map(({ x, y }) => ({ x: y, y: x }));
+  const best = byColumns.length > byRows.length ? byColumns : byRows;
+
+  return centre(best, width, height, diameter).sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+function packStaggeredRows(width: number, height: number, diameter: number, spacing: number): PackedPosition[] {
+  if (diameter <= 0 || diameter > width || diameter > height) {
+    return [];
+  }
+
+  const pitch = diameter + spacing;
+  const rowPitch = pitch * Math.sqrt(3) / 2;
+  // Tiny tolerance so sizes that fit exactly are not lost to rounding
+  const epsilon = 1e-9;
+  const rows = Math.floor((height - diameter) / rowPitch + epsilon) + 1;
+
+  const positions: PackedPosition[] = [];
+  for (let row = 0; row < rows; row++) {
+    // Odd rows shift by half a pitch into the gaps of the row above
+    const shift = row % 2 === 1 ? pitch / 2 : 0;
+    const free = width - diameter - shift;
+    if (free < -epsilon) {
+      continue;
+    }
+    const count = Math.floor(free / pitch + epsilon) + 1;
+    for (let col = 0; col < count; col++) {
+      positions.push({ x: shift + col * pitch, y: row * rowPitch });
+    }
+  }
+  return positions;
+}
+
+function centre(positions: PackedPosition[], width: number, height: number, diameter: number): PackedPosition[] {
+  if (positions.length === 0) {
+    return positions;
+  }
+
+  const right = Math.max(...positions.map(p => p.x)) + diameter;
+  const bottom = Math.max(...positions.map(p => p.y)) + diameter;
+  const dx = (width - right) / 2;
+  const dy = (height - bottom) / 2;
+  return positions.map(p => ({ x: p.x + dx, y: p.y + dy }));
+}
@@ -0,0 +1,47 @@
+import { DEFAULT_ADJUSTMENTS } from '../models/adjustments.model';
+import { applyLevels, buildFilter, calculateLevels, hasAdjustments, levelTransfer } from './image-adjustments';
+
+describe('image adjustments', () => {
+  const pixel = (r: number, g: number, b: number, a = 255) => [r, g, b, a];
+
+  it('should leave neutral adjustments out of the filter', () => {
+    expect(buildFilter(DEFAULT_ADJUSTMENTS)).toBe('');
+    expect(hasAdjustments(DEFAULT_ADJUSTMENTS)).toBeFalse();
+  });
+
+  it('should build CSS filter functions in a fixed order', () => {
+    const adjustments = { ...DEFAULT_ADJUSTMENTS, brightness: 120, saturation: 50, sepia: 30 };
+
+    expect(buildFilter(adjustments)).toBe('brightness(1.2) saturate(0.5) sepia(0.3)');
+    expect(hasAdjustments(adjustments)).toBeTrue();
+  });
+
+  it('should measure the range of each channel and ignore transparent pixels', () => {
+    const pixels = new Uint8ClampedArray([
+      ...pixel(20, 0, 40),
+      ...pixel(200, 100, 40),
+      ...pixel(0, 255, 255, 0)
+    ]);
+
+    const levels = calculateLevels(pixels);
+
+    expect(levels.low).toEqual([20, 0, 0]);
+    expect(levels.high).toEqual([200, 100, 255]);
+  });
+
+  it('should stretch each channel to the full range', () => {
+    const levels = { low: [20, 0, 0] as [number, number, number], high: [200, 100, 255] as [number, number, number] };
+    const pixels = new Uint8ClampedArray([...pixel(20, 0, 0), ...pixel(200, 100, 255), ...pixel(110, 60, 128)]);
+
+    applyLevels(pixels, levels);
+
+    expect(Array.from(pixels)).toEqual([...pixel(0, 0, 0), ...pixel(255, 255, 255), ...pixel(128, 153, 128)]);
+  });
+
+  it('should describe the same mapping for the SVG preview', () => {
+    const [red] = levelTransfer({ low: [51, 0, 0], high: [204, 255, 255] });
+
+    expect(0.2 * red.slope + red.intercept).toBeCloseTo(0);
+    expect(0.8 * red.slope + red.intercept).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { ChannelLevels, ImageAdjustments } from '../models/adjustments.model';
+
+// Share of the darkest and brightest pixels ignored by auto levels, so dust and specular highlights don't count
+const AUTO_LEVELS_CLIP = 0.005;
+
+// Auto levels is measured on a small copy of the image
+const AUTO_LEVELS_SAMPLE_SIZE = 256;
+
+/**
+ * CSS filter functions for the adjustments, usable for elements and canvas 2D contexts alike.
+ * Auto levels is not included, see levelTransfer() and applyLevels().
+ */
+export function buildFilter(adjustments: ImageAdjustments): string {
+  const filters: string[] = [];
+  if (adjustments.brightness !== 100) {
+    filters.push(`brightness(${adjustments.brightness / 100})`);
+  }
+  if (adjustments.contrast !== 100) {
+    filters.push(`contrast(${adjustments.contrast / 100})`);
+  }
+  if (adjustments.saturation !== 100) {
+    filters.push(`saturate(${adjustments.saturation / 100})`);
+  }
+  if (adjustments.grayscale > 0) {
+    filters.push(`grayscale(${adjustments.grayscale / 100})`);
+  }
+  if (adjustments.sepia > 0) {
+    filters.push(`sepia(${adjustments.sepia / 100})`);
+  }
+  return filters.join(' ');
+}
+
+/**
+ * Whether the adjustments change the image at all
+ */
+export function hasAdjustments(adjustments: ImageAdjustments | null | undefined): boolean {
+  return !!adjustments && (buildFilter(adjustments) !== '' || (adjustments.autoLevels && !!adjustments.levels));
+}
+
+/**
+ * Find the range of each colour channel from RGBA pixel data
+ */
+export function calculateLevels(pixels: Uint8ClampedArray): ChannelLevels {
+  const histograms = [new Array(256).fill(0), new Array(256).fill(0), new Array(256).fill(0)];
+  let count = 0;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Transparent pixels carry no colour
+    if (pixels[i + 3] === 0) {
+      continue;
+    }
+    histograms[0][pixels[i]]++;
+    histograms[1][pixels[i + 1]]++;
+    histograms[2][pixels[i + 2]]++;
+    count++;
+  }
+
+  const clip = Math.floor(count * AUTO_LEVELS_CLIP);
+  const low: [number, number, number] = [0, 0, 0];
+  const high: [number, number, number] = [255, 255, 255];
+
+  histograms.forEach((histogram, channel) => {
+    let sum = 0;
+    for (let value = 0; value < 256; value++) {
+      sum += histogram[value];
+      if (sum > clip) {
+        low[channel] = value;
+        break;
+      }
+    }
+
+    sum = 0;
+    for (let value = 255; value >= 0; value--) {
+      sum += histogram[value];
+      if (sum > clip) {
+        high[channel] = value;
+        break;
+      }
+    }
+
+    // Flat channels are left alone
+    if (high[channel] <= low[channel]) {
+      low[channel] = 0;
+      high[channel] = 255;
+    }
+  });
+
+  return { low, high };
+}
+
+/**
+ * Linear transfer per channel (values 0-1) as used by SVG feComponentTransfer
+ */
+export function levelTransfer(levels: ChannelLevels): { slope: number; intercept: number }[] {
+  return levels.low.map((low, channel) => {
+    const slope = 255 / (levels.high[channel] - low);
+    return { slope, intercept: -low / 255 * slope };
+  });
+}
+
+/**
+ * Apply auto levels to RGBA pixel data in place, with the same mapping as levelTransfer()
+ */
+export function applyLevels(pixels: Uint8ClampedArray, levels: ChannelLevels): void {
+  const transfer = levelTransfer(levels);
+  const tables = transfer.map(({ slope, intercept }) => {
+    const table = new Uint8ClampedArray(256);
+    for (let value = 0; value < 256; value++) {
+      table[value] = Math.round((value / 255 * slope + intercept) * 255);
+    }
+    return table;
+  });
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = tables[0][pixels[i]];
+    pixels[i + 1] = tables[1][pixels[i + 1]];
+    pixels[i + 2] = tables[2][pixels[i + 2]];
+  }
+}
+
+/**
+ * Measure the auto levels of an image
+ */
+export async function measureAutoLevels(imageSrc: string): Promise<ChannelLevels> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for auto levels'));
+    img.src = imageSrc;
+  });
+
+  const factor = Math.min(1, AUTO_LEVELS_SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * factor));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * factor));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return calculateLevels(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+}
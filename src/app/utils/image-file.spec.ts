@@ -0,0 +1,61 @@
+import { getPreviewUrl, PREVIEW_MAX_SIZE, readImageFile, releaseUnusedImages } from './image-file';
+
+describe('image file', () => {
+  const createPicture = (width: number, height: number): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.fillStyle = '#ff8800';
+    context.fillRect(0, 0, width, height);
+    return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No picture')), 'image/png'));
+  };
+
+  const readPreviewSize = (src: string): Promise<{ width: number; height: number }> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Preview could not be read'));
+    img.src = src;
+  });
+
+  afterEach(() => releaseUnusedImages(new Set()));
+
+  it('should show small pictures as they are', async () => {
+    const image = await readImageFile(await createPicture(40, 30));
+
+    expect(image.imageWidth).toBe(40);
+    expect(image.imageHeight).toBe(30);
+    expect(getPreviewUrl(image.imageData)).toBe(image.imageData);
+  });
+
+  it('should encode the preview of large pictures on an OffscreenCanvas', async () => {
+    const picture = await createPicture(PREVIEW_MAX_SIZE * 2, 20);
+    const convertToBlob = spyOn(OffscreenCanvas.prototype, 'convertToBlob').and.callThrough();
+
+    const image = await readImageFile(picture);
+    const preview = getPreviewUrl(image.imageData);
+
+    expect(convertToBlob).toHaveBeenCalled();
+    expect(image.imageWidth).toBe(PREVIEW_MAX_SIZE * 2);
+    expect(preview).not.toBe(image.imageData);
+    expect(await readPreviewSize(preview)).toEqual({ width: PREVIEW_MAX_SIZE, height: 10 });
+  });
+
+  it('should fall back to a page canvas without OffscreenCanvas', async () => {
+    const picture = await createPicture(PREVIEW_MAX_SIZE * 2, 20);
+    const offscreenCanvas = window.OffscreenCanvas;
+    const toBlob = spyOn(HTMLCanvasElement.prototype, 'toBlob').and.callThrough();
+
+    (window as { OffscreenCanvas?: typeof OffscreenCanvas }).OffscreenCanvas = undefined;
+    try {
+      const image = await readImageFile(picture);
+      const preview = getPreviewUrl(image.imageData);
+
+      expect(toBlob).toHaveBeenCalled();
+      expect(preview).not.toBe(image.imageData);
+      expect(await readPreviewSize(preview)).toEqual({ width: PREVIEW_MAX_SIZE, height: 10 });
+    } finally {
+      window.OffscreenCanvas = offscreenCanvas;
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { PlaceholderImage } from '../models/sheet.model';
+
+export interface LoadedImage {
+  // Object URL of the full-resolution file
+  imageData: string;
+  // Natural size in pixels
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// Longest side of the previews shown while editing (pixels)
+export const PREVIEW_MAX_SIZE = 2048;
+
+interface StoredImage {
+  blob: Blob;
+  // Object URL of the screen-resolution copy, null when the picture is small enough to show as it is
+  previewUrl: string | null;
+}
+
+// Pictures of this browser tab by the object URL of their full-resolution file
+const storedImages = new Map<string, StoredImage>();
+
+/**
+ * Keep an image file as a Blob and learn its size. Large pictures get a screen-resolution preview,
+ * decoded and scaled off the main thread; the file itself is only decoded for printing and export.
+ * Error messages are short reasons for the list of rejected files.
+ */
+export async function readImageFile(file: Blob): Promise<LoadedImage> {
+  const imageData = URL.createObjectURL(file);
+  try {
+    const { width, height } = await readImageSize(imageData);
+    const previewUrl = await createPreview(file, width, height);
+    storedImages.set(imageData, { blob: file, previewUrl });
+    return { imageData, imageWidth: width, imageHeight: height };
+  } catch (error) {
+    URL.revokeObjectURL(imageData);
+    throw error;
+  }
+}
+
+/**
+ * Keep an image file the browser could not read, so it is still saved with the session and project
+ */
+export function keepImageFile(file: Blob): string {
+  const imageData = URL.createObjectURL(file);
+  storedImages.set(imageData, { blob: file, previewUrl: null });
+  return imageData;
+}
+
+/**
+ * URL to show a picture while editing: its preview, or the picture itself when it has none
+ */
+export function getPreviewUrl(imageData: string): string {
+  return storedImages.get(imageData)?.previewUrl ?? imageData;
+}
+
+/**
+ * The file behind an object URL or data URL
+ */
+export async function getImageBlob(imageData: string): Promise<Blob> {
+  const stored = storedImages.get(imageData);
+  if (stored) {
+    return stored.blob;
+  }
+  const response = await fetch(imageData);
+  return response.blob();
+}
+
+/**
+ * Embeddable copy of a picture for project files
+ */
+export async function toDataUrl(imageData: string): Promise<string> {
+  if (imageData.startsWith('data:')) {
+    return imageData;
+  }
+
+  const blob = await getImageBlob(imageData);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('The picture could not be read'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Turn a data URL from a project file or an older session into an object URL with a preview.
+ * Pictures the browser can't read keep their data URL.
+ */
+export async function adoptImage(imageData: string): Promise<string> {
+  if (!imageData.startsWith('data:')) {
+    return imageData;
+  }
+
+  try {
+    return (await readImageFile(await getImageBlob(imageData))).imageData;
+  } catch (error) {
+    console.warn('Failed to convert picture:', error);
+    return imageData;
+  }
+}
+
+/**
+ * Copy of a picture with the URLs of the picture and its back replaced
+ */
+export async function replaceImageUrls(
+  image: PlaceholderImage,
+  replace: (imageData: string) => Promise<string>
+): Promise<PlaceholderImage> {
+  const imageData = image.imageData && await replace(image.imageData);
+  const backData = image.back?.imageData && await replace(image.back.imageData);
+  return {
+    ...image,
+    imageData,
+    back: image.back && { ...image.back, imageData: backData ?? null }
+  };
+}
+
+/**
+ * Release the files and previews of all pictures that are no longer in use
+ */
+export function releaseUnusedImages(inUse: Set<string>): void {
+  storedImages.forEach((stored, imageData) => {
+    if (!inUse.has(imageData)) {
+      URL.revokeObjectURL(imageData);
+      if (stored.previewUrl) {
+        URL.revokeObjectURL(stored.previewUrl);
+      }
+      storedImages.delete(imageData);
+    }
+  });
+}
+
+// Natural size of a picture; the browser reads it from the file header without decoding the pixels
+function readImageSize(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Not an image format this browser can read'));
+    img.src = src;
+  });
+}
+
+// Object URL of a scaled-down copy, or null when the picture is small enough or can't be scaled (SVG)
+async function createPreview(blob: Blob, width: number, height: number): Promise<string | null> {
+  const factor = PREVIEW_MAX_SIZE / Math.max(width, height);
+  if (factor >= 1 || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+
+  try {
+    const bitmap = await createImageBitmap(blob, {
+      resizeWidth: Math.max(1, Math.round(width * factor)),
+      resizeHeight: Math.max(1, Math.round(height * factor)),
+      resizeQuality: 'high'
+    });
+
+    // Photos stay JPEG, everything else keeps its transparency
+    const type = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    let preview: Blob | null;
+    try {
+      preview = typeof OffscreenCanvas !== 'undefined'
+        ? await encodeOffscreen(bitmap, type)
+        : await encodeWithCanvas(bitmap, type);
+    } finally {
+      bitmap.close();
+    }
+    return preview ? URL.createObjectURL(preview) : null;
+  } catch (error) {
+    console.warn('Failed to create preview:', error);
+    return null;
+  }
+}
+
+// The bitmap is already scaled, so drawing it is a plain copy; the browser encodes off the main thread
+function encodeOffscreen(bitmap: ImageBitmap, type: string): Promise<Blob> {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return canvas.convertToBlob({ type, quality: 0.9 });
+}
+
+// Browsers without OffscreenCanvas encode on a page canvas
+function encodeWithCanvas(bitmap: ImageBitmap, type: string): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return new Promise(resolve => canvas.toBlob(resolve, type, 0.9));
+}
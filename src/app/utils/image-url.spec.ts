@@ -0,0 +1,34 @@
+import { fetchImageFile, fileNameFromUrl } from './image-url';
+
+describe('image URL', () => {
+  it('should name files after the address', () => {
+    expect(fileNameFromUrl(new URL('https://example.com/covers/Die%20Maus.jpg?size=large'), 'image/jpeg')).toBe('Die Maus.jpg');
+    expect(fileNameFromUrl(new URL('https://example.com/image/1234'), 'image/svg+xml')).toBe('1234.svg');
+    expect(fileNameFromUrl(new URL('data:image/png;base64,AAAA'), 'image/png')).toBe('picture.png');
+  });
+
+  it('should download a picture as a file', async () => {
+    spyOn(window, 'fetch').and.resolveTo(new Response(new Blob(['png'], { type: 'image/png' })));
+
+    const file = await fetchImageFile(' https://example.com/cover.png ');
+
+    expect(file.name).toBe('cover.png');
+    expect(file.type).toBe('image/png');
+  });
+
+  it('should reject addresses that are not pictures', async () => {
+    await expectAsync(fetchImageFile('example.com/cover.png')).toBeRejectedWithError(/complete address/);
+    await expectAsync(fetchImageFile('ftp://example.com/cover.png')).toBeRejectedWithError(/Only http/);
+
+    spyOn(window, 'fetch').and.resolveTo(new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }));
+    await expectAsync(fetchImageFile('https://example.com/gallery')).toBeRejectedWithError(/web page/);
+  });
+
+  it('should explain blocked and failed requests', async () => {
+    const fetchSpy = spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+    await expectAsync(fetchImageFile('https://cdn.example.com/cover.png')).toBeRejectedWithError(/cdn\.example\.com.*CORS/);
+
+    fetchSpy.and.resolveTo(new Response('Not found', { status: 404 }));
+    await expectAsync(fetchImageFile('https://cdn.example.com/cover.png')).toBeRejectedWithError(/HTTP 404/);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Download a picture from a web address as a file, ready for the regular import path.
+ * Error messages explain what went wrong in words a user can act on.
+ */
+export async function fetchImageFile(address: string): Promise<File> {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new Error('Please enter a complete address starting with https://.');
+  }
+  if (!['http:', 'https:', 'data:'].includes(url.protocol)) {
+    throw new Error('Only http, https and data addresses can be loaded.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url.href);
+  } catch {
+    // Browsers report blocked cross-origin requests as plain network errors
+    throw new Error(`Could not load the picture from ${url.protocol === 'data:' ? 'the data address' : url.host}. ` +
+      'The server may be offline, or it does not allow other sites to load its pictures (CORS). ' +
+      'Save the picture and drop the file instead.');
+  }
+
+  if (!response.ok) {
+    throw new Error(`The server could not deliver the picture (HTTP ${response.status}).`);
+  }
+
+  const blob = await response.blob();
+  if (blob.type.startsWith('text/html')) {
+    throw new Error('The address leads to a web page, not a picture. Right-click the picture and copy the image address.');
+  }
+
+  return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type });
+}
+
+/**
+ * Last part of the path as file name, with an extension from the content type if it has none
+ */
+export function fileNameFromUrl(url: URL, type: string): string {
+  let name = '';
+  if (url.protocol !== 'data:') {
+    try {
+      name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+    } catch {
+      name = url.pathname.split('/').pop() ?? '';
+    }
+  }
+  name = name.trim() || 'picture';
+
+  const extension = type.startsWith('image/') ? type.split('/')[1].split('+')[0] : '';
+  return extension && !/\.\w+$/.test(name) ? `${name}.${extension}` : name;
+}
@@ -0,0 +1,37 @@
+import { orientationMatrix, readJpegInfo } from './jpeg-info';
+
+describe('JPEG info', () => {
+  const jpeg = (...segments: number[][]) => new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9]);
+  const frame = (marker: number, width: number, height: number, components = 3) => [
+    0xff, marker, 0x00, 8 + 3 * components, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, components,
+    ...Array(3 * components).fill(0)
+  ];
+  // Little-endian Exif segment with a single orientation entry
+  const exif = (orientation: number) => [
+    0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+    0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+    0x01, 0x00, 0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00
+  ];
+
+  it('should read the size and colour components from the frame header', () => {
+    expect(readJpegInfo(jpeg(frame(0xc0, 800, 600)))).toEqual({ widthPx: 800, heightPx: 600, components: 3, orientation: 1 });
+    expect(readJpegInfo(jpeg(frame(0xc2, 300, 200, 1)))?.components).toBe(1);
+  });
+
+  it('should read the EXIF orientation', () => {
+    expect(readJpegInfo(jpeg(exif(6), frame(0xc0, 800, 600)))?.orientation).toBe(6);
+  });
+
+  it('should reject other files and JPEG variants PDF readers cannot show', () => {
+    expect(readJpegInfo(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBeNull();
+    expect(readJpegInfo(jpeg(frame(0xc3, 800, 600)))).toBeNull();
+  });
+
+  it('should turn the stored pixels upright', () => {
+    // The top left corner of a 4 × 2 image rotated by 90 degrees clockwise lands at the top right
+    const [a, b, c, d] = orientationMatrix(6);
+    expect([a * -2 + c * -1, b * -2 + d * -1]).toEqual([1, -2]);
+    expect(orientationMatrix(1)).toEqual([1, 0, 0, 1]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Reads what embedding a JPEG file in a PDF needs from its header, without decoding the image
+ */
+
+export interface JpegInfo {
+  // Size of the stored pixels, before the EXIF orientation is applied
+  widthPx: number;
+  heightPx: number;
+  // 1 for grayscale, 3 for colour, 4 for CMYK
+  components: number;
+  // EXIF orientation 1-8, 1 when the file has none
+  orientation: number;
+}
+
+// Start of frame markers PDF readers can decode: baseline, extended sequential and progressive
+const SUPPORTED_FRAMES = [0xc0, 0xc1, 0xc2];
+
+// Start of frame markers of every kind, except the DHT, JPG and DAC markers sharing the range
+const FRAME_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * Size, colour components and orientation of a JPEG file, or null if it isn't a JPEG PDF readers can show
+ */
+export function readJpegInfo(bytes: Uint8Array): JpegInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) {
+    return null;
+  }
+
+  let orientation = 1;
+  let position = 2;
+  while (position + 4 <= bytes.length) {
+    if (bytes[position] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[position + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+
+    const length = view.getUint16(position + 2);
+    const segment = position + 4;
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(view, segment, length - 2) ?? orientation;
+    } else if (FRAME_MARKERS.includes(marker)) {
+      if (!SUPPORTED_FRAMES.includes(marker) || segment + 6 > bytes.length) {
+        return null;
+      }
+      return {
+        heightPx: view.getUint16(segment + 1),
+        widthPx: view.getUint16(segment + 3),
+        components: bytes[segment + 5],
+        orientation
+      };
+    } else if (marker === 0xda) {
+      // Image data started without a frame header
+      return null;
+    }
+    position = segment + length - 2;
+  }
+  return null;
+}
+
+/**
+ * Transform that turns the stored pixels upright, as a PDF matrix [a, b, c, d] around the image centre (y down)
+ */
+export function orientationMatrix(orientation: number): [number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1];
+    case 3: return [-1, 0, 0, -1];
+    case 4: return [1, 0, 0, -1];
+    case 5: return [0, 1, 1, 0];
+    case 6: return [0, 1, -1, 0];
+    case 7: return [0, -1, -1, 0];
+    case 8: return [0, -1, 1, 0];
+    default: return [1, 0, 0, 1];
+  }
+}
+
+// Orientation from the first image directory of an APP1 Exif segment
+function readExifOrientation(view: DataView, start: number, length: number): number | null {
+  const end = start + length;
+  // "Exif" followed by two zero bytes
+  if (length < 14 || view.getUint32(start) !== 0x45786966 || view.getUint16(start + 4) !== 0) {
+    return null;
+  }
+
+  const tiff = start + 6;
+  const byteOrder = view.getUint16(tiff);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return null;
+  }
+  const little = byteOrder === 0x4949;
+
+  const directory = tiff + view.getUint32(tiff + 4, little);
+  if (directory + 2 > end) {
+    return null;
+  }
+  const entries = view.getUint16(directory, little);
+  for (let index = 0; index < entries; index++) {
+    const entry = directory + 2 + index * 12;
+    if (entry + 12 > end) {
+      return null;
+    }
+    if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+import { CoverGroup } from '../models/cover-mix.model';
+import { SheetSlot } from '../models/sheet.model';
+import { packCoverMix, SheetArea } from './mixed-packing';
+
+describe('mixed packing', () => {
+  // 10×15 cm photo paper with 4 mm margins leaves 92×142 mm
+  const area: SheetArea = { paperWidthMm: 100, paperHeightMm: 150, marginMm: 4, spacingMm: 2, bleedMm: 0 };
+
+  const square45: CoverGroup = { quantity: 6, shape: 'rectangular', width: 45, height: 45 };
+  const round30: CoverGroup = { quantity: 4, shape: 'round', width: 30, height: 30 };
+
+  const gap = (a: SheetSlot, b: SheetSlot) => Math.max(
+    b.left - (a.left + a.width),
+    a.left - (b.left + b.width),
+    b.top - (a.top + a.height),
+    a.top - (b.top + b.height)
+  );
+
+  it('should place every cover of the mix', () => {
+    const packing = packCoverMix([square45, round30], area);
+    const slots = packing.pages.flat();
+
+    expect(packing.oversized).toEqual([]);
+    expect(slots.filter(slot => slot.shape === 'rectangular').length).toBe(6);
+    expect(slots.filter(slot => slot.shape === 'round' && slot.width === 30 && slot.height === 30).length).toBe(4);
+    expect(packing.pages.length).toBe(2);
+  });
+
+  it('should fill gaps on earlier sheets before starting a new one', () => {
+    const packing = packCoverMix([{ ...square45, quantity: 4 }, { ...round30, quantity: 2 }], area);
+
+    // Two rows of large covers leave room for a row of small ones on the same sheet
+    expect(packing.pages.length).toBe(1);
+  });
+
+  it('should keep margins and spacing between all covers', () => {
+    const packing = packCoverMix([square45, round30, { quantity: 5, shape: 'rectangular', width: 20, height: 35 }], { ...area, bleedMm: 1 });
+
+    packing.pages.forEach(slots => {
+      slots.forEach((slot, i) => {
+        expect(slot.left - 1).toBeGreaterThanOrEqual(4 - 1e-9);
+        expect(slot.top - 1).toBeGreaterThanOrEqual(4 - 1e-9);
+        expect(slot.left + slot.width + 1).toBeLessThanOrEqual(96 + 1e-9);
+        expect(slot.top + slot.height + 1).toBeLessThanOrEqual(146 + 1e-9);
+        slots.slice(i + 1).forEach(other => expect(gap(slot, other)).toBeGreaterThanOrEqual(2 + 2 - 1e-9));
+      });
+    });
+  });
+
+  it('should report covers that are larger than the printable area', () => {
+    const tooLarge: CoverGroup = { quantity: 2, shape: 'rectangular', width: 95, height: 40 };
+    const packing = packCoverMix([tooLarge, round30], area);
+
+    expect(packing.oversized).toEqual([tooLarge]);
+    expect(packing.pages.flat().length).toBe(4);
+  });
+});
@@ -0,0 +1,115 @@
+import { CoverGroup } from '../models/cover-mix.model';
+import { SheetSlot } from '../models/sheet.model';
+
+export interface SheetArea {
+  paperWidthMm: number;
+  paperHeightMm: number;
+  marginMm: number;
+  spacingMm: number;
+  bleedMm: number;
+}
+
+export interface MixedPacking {
+  // Slots of every sheet, in reading order
+  pages: SheetSlot[][];
+  // Groups whose covers are larger than the printable area and were not placed
+  oversized: CoverGroup[];
+}
+
+interface Item {
+  group: CoverGroup;
+  // Tile size: cut area plus bleed on both sides
+  tileWidth: number;
+  tileHeight: number;
+}
+
+interface Shelf {
+  y: number;
+  height: number;
+  usedWidth: number;
+  slots: { x: number; item: Item }[];
+}
+
+/**
+ * Pack covers of different sizes onto as few sheets as possible (first fit decreasing height).
+ * Covers are placed left to right on shelves, tallest first; a cover goes onto the first sheet
+ * with room for it, so small covers fill the gaps next to larger ones.
+ * Margins and spacing are measured between tiles like in the regular grid.
+ */
+export function packCoverMix(groups: CoverGroup[], area: SheetArea): MixedPacking {
+  const availableWidth = area.paperWidthMm - 2 * area.marginMm;
+  const availableHeight = area.paperHeightMm - 2 * area.marginMm;
+  const spacing = area.spacingMm;
+
+  const oversized: CoverGroup[] = [];
+  const items: Item[] = [];
+  groups.forEach(group => {
+    const tileWidth = group.width + 2 * area.bleedMm;
+    const tileHeight = (group.shape === 'round' ? group.width : group.height) + 2 * area.bleedMm;
+    if (tileWidth > availableWidth || tileHeight > availableHeight) {
+      oversized.push(group);
+      return;
+    }
+    for (let i = 0; i < group.quantity; i++) {
+      items.push({ group, tileWidth, tileHeight });
+    }
+  });
+
+  // Stable sort keeps the order of the groups for covers of the same size
+  items.sort((a, b) => b.tileHeight - a.tileHeight || b.tileWidth - a.tileWidth);
+
+  const sheets: Shelf[][] = [];
+  for (const item of items) {
+    if (!placeOnShelf(sheets, item, availableWidth, spacing)) {
+      placeOnNewShelf(sheets, item, availableHeight, spacing);
+    }
+  }
+
+  return {
+    pages: sheets.map(shelves => toSlots(shelves, area, availableWidth, availableHeight)),
+    oversized
+  };
+}
+
+function placeOnShelf(sheets: Shelf[][], item: Item, availableWidth: number, spacing: number): boolean {
+  for (const shelves of sheets) {
+    for (const shelf of shelves) {
+      const x = shelf.slots.length > 0 ? shelf.usedWidth + spacing : 0;
+      if (item.tileHeight <= shelf.height && x + item.tileWidth <= availableWidth) {
+        shelf.slots.push({ x, item });
+        shelf.usedWidth = x + item.tileWidth;
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function placeOnNewShelf(sheets: Shelf[][], item: Item, availableHeight: number, spacing: number): void {
+  for (const shelves of sheets) {
+    const last = shelves[shelves.length - 1];
+    const y = last.y + last.height + spacing;
+    if (y + item.tileHeight <= availableHeight) {
+      shelves.push({ y, height: item.tileHeight, usedWidth: item.tileWidth, slots: [{ x: 0, item }] });
+      return;
+    }
+  }
+  sheets.push([{ y: 0, height: item.tileHeight, usedWidth: item.tileWidth, slots: [{ x: 0, item }] }]);
+}
+
+// Centre the used area on the sheet like the regular grid, slots are the cut area inside the tiles
+function toSlots(shelves: Shelf[], area: SheetArea, availableWidth: number, availableHeight: number): SheetSlot[] {
+  const usedWidth = Math.max(...shelves.map(shelf => shelf.usedWidth));
+  const last = shelves[shelves.length - 1];
+  const offsetX = area.marginMm + (availableWidth - usedWidth) / 2 + area.bleedMm;
+  const offsetY = area.marginMm + (availableHeight - (last.y + last.height)) / 2 + area.bleedMm;
+
+  return shelves.flatMap(shelf => shelf.slots.map(({ x, item }) => ({
+    left: offsetX + x,
+    // Smaller covers sit centred in the height of their shelf
+    top: offsetY + shelf.y + (shelf.height - item.tileHeight) / 2,
+    width: item.group.width,
+    height: item.group.shape === 'round' ? item.group.width : item.group.height,
+    shape: item.group.shape
+  })));
+}
@@ -0,0 +1,61 @@
+import { PdfDocument } from './pdf-document';
+
+describe('PdfDocument', () => {
+  const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+  it('should write one page per sheet with the exact paper size', () => {
+    const pdf = new PdfDocument();
+    pdf.addPage(100, 150);
+    pdf.addPage(100, 150);
+
+    const text = decode(pdf.toBytes());
+    expect(text.startsWith('%PDF-1.4')).toBeTrue();
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/MediaBox [0 0 283.4646 425.1969]');
+    expect(text.trimEnd().endsWith('%%EOF')).toBeTrue();
+  });
+
+  it('should point the cross-reference table at the object offsets', () => {
+    const pdf = new PdfDocument();
+    pdf.addPage(210, 297).rect(10, 10, 20, 20).fill();
+
+    const text = decode(pdf.toBytes());
+    const xrefStart = parseInt(text.slice(text.lastIndexOf('startxref') + 10), 10);
+    expect(text.slice(xrefStart, xrefStart + 4)).toBe('xref');
+
+    const firstEntry = text.slice(xrefStart).split('\n')[3];
+    const offset = parseInt(firstEntry.slice(0, 10), 10);
+    expect(text.slice(offset, offset + 7)).toBe('1 0 obj');
+  });
+
+  it('should append transforms in millimetres after the page set-up', () => {
+    const content = new PdfDocument().addPage(100, 150).transform(0.99, 1.01, -0.5, 1.25);
+
+    expect(content.toString().split('\n')[1]).toBe('0.99 0 0 1.01 -0.5 1.25 cm');
+  });
+
+  it('should append full matrices for rotated drawings', () => {
+    const content = new PdfDocument().addPage(100, 150).concat(0, 1, -1, 0, 10, 20);
+
+    expect(content.toString().split('\n')[1]).toBe('0 1 -1 0 10 20 cm');
+  });
+
+  it('should embed registered JPEG images as XObjects', () => {
+    const pdf = new PdfDocument();
+    const name = pdf.addJpeg(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), 4, 3);
+    pdf.addPage(100, 100).image(name, 0, 0, 10, 10);
+
+    const text = decode(pdf.toBytes());
+    expect(name).toBe('Im1');
+    expect(text).toContain('/Subtype /Image /Width 4 /Height 3');
+    expect(text).toContain('/Im1 Do');
+  });
+
+  it('should keep the colour space of grayscale JPEG images', () => {
+    const pdf = new PdfDocument();
+    pdf.addJpeg(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), 4, 3, 'DeviceGray');
+    pdf.addPage(100, 100);
+
+    expect(decode(pdf.toBytes())).toContain('/ColorSpace /DeviceGray');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Minimal PDF 1.4 writer for print sheets.
+ *
+ * Supports just what the cover sheets need: pages of an exact size,
+ * JPEG images (embedded as-is with DCTDecode), filled/stroked rectangles
+ * and circles, and clipping paths. All drawing coordinates are in mm with
+ * the origin in the top left corner of the page, like the on-screen layout.
+ */
+
+const MM_TO_PT = 72 / 25.4;
+
+// Bezier control point distance for approximating a quarter circle
+const CIRCLE_KAPPA = 0.5522847498;
+
+export type PdfColorSpace = 'DeviceRGB' | 'DeviceGray';
+
+interface PdfImage {
+  name: string;
+  bytes: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+  colorSpace: PdfColorSpace;
+}
+
+interface PdfPage {
+  widthMm: number;
+  heightMm: number;
+  content: PdfPageContent;
+}
+
+/**
+ * Format a number for a PDF content stream (no exponent notation, trimmed zeros)
+ */
+function num(value: number): string {
+  const fixed = value.toFixed(4);
+  return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+}
+
+/**
+ * Drawing operations of one page, expressed in mm from the top left corner
+ */
+export class PdfPageContent {
+  private readonly ops: string[] = [];
+
+  constructor(private readonly heightMm: number) {
+    // Flip the coordinate system so that y grows downwards and units are mm
+    this.ops.push(`${num(MM_TO_PT)} 0 0 ${num(-MM_TO_PT)} 0 ${num(heightMm * MM_TO_PT)} cm`);
+  }
+
+  save(): this {
+    this.ops.push('q');
+    return this;
+  }
+
+  restore(): this {
+    this.ops.push('Q');
+    return this;
+  }
+
+  /**
+   * Set the fill color (0-255 per channel)
+   */
+  fillColor(r: number, g: number, b: number): this {
+    this.ops.push(`${num(r / 255)} ${num(g / 255)} ${num(b / 255)} rg`);
+    return this;
+  }
+
+  /**
+   * Set the stroke color (0-255 per channel)
+   */
+  strokeColor(r: number, g: number, b: number): this {
+    this.ops.push(`${num(r / 255)} ${num(g / 255)} ${num(b / 255)} RG`);
+    return this;
+  }
+
+  lineWidth(widthMm: number): this {
+    this.ops.push(`${num(widthMm)} w`);
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number): this {
+    this.ops.push(`${num(x)} ${num(y)} ${num(width)} ${num(height)} re`);
+    return this;
+  }
+
+  circle(cx: number, cy: number, radius: number): this {
+    const k = radius * CIRCLE_KAPPA;
+    this.ops.push(
+      `${num(cx + radius)} ${num(cy)} m`,
+      `${num(cx + radius)} ${num(cy + k)} ${num(cx + k)} ${num(cy + radius)} ${num(cx)} ${num(cy + radius)} c`,
+      `${num(cx - k)} ${num(cy + radius)} ${num(cx - radius)} ${num(cy + k)} ${num(cx - radius)} ${num(cy)} c`,
+      `${num(cx - radius)} ${num(cy - k)} ${num(cx - k)} ${num(cy - radius)} ${num(cx)} ${num(cy - radius)} c`,
+      `${num(cx + k)} ${num(cy - radius)} ${num(cx + radius)} ${num(cy - k)} ${num(cx + radius)} ${num(cy)} c`,
+      'h'
+    );
+    return this;
+  }
+
+  fill(): this {
+    this.ops.push('f');
+    return this;
+  }
+
+  stroke(): this {
+    this.ops.push('S');
+    return this;
+  }
+
+  /**
+   * Use the current path as clipping path for everything until restore()
+   */
+  clip(): this {
+    this.ops.push('W n');
+    return this;
+  }
+
+  /**
+   * Scale and shift everything drawn afterwards: x' = x × scaleX + translateX (mm, same for y)
+   */
+  transform(scaleX: number, scaleY: number, translateXMm: number, translateYMm: number): this {
+    this.ops.push(`${num(scaleX)} 0 0 ${num(scaleY)} ${num(translateXMm)} ${num(translateYMm)} cm`);
+    return this;
+  }
+
+  /**
+   * Transform everything drawn afterwards with a full matrix: x' = a·x + c·y + e, y' = b·x + d·y + f (mm)
+   */
+  concat(a: number, b: number, c: number, d: number, e: number, f: number): this {
+    this.ops.push(`${num(a)} ${num(b)} ${num(c)} ${num(d)} ${num(e)} ${num(f)} cm`);
+    return this;
+  }
+
+  /**
+   * Draw an image registered with PdfDocument.addJpeg() into the given box
+   */
+  image(name: string, x: number, y: number, width: number, height: number): this {
+    // Image space is a unit square with its origin at the bottom left,
+    // so it has to be flipped back to draw upright in our y-down system
+    this.ops.push('q', `${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm`, `/${name} Do`, 'Q');
+    return this;
+  }
+
+  toString(): string {
+    return this.ops.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private readonly images: PdfImage[] = [];
+
+  /**
+   * Append a page of the given size and return its content for drawing
+   */
+  addPage(widthMm: number, heightMm: number): PdfPageContent {
+    const content = new PdfPageContent(heightMm);
+    this.pages.push({ widthMm, heightMm, content });
+    return content;
+  }
+
+  /**
+   * Register a JPEG image and return the resource name to draw it with
+   */
+  addJpeg(bytes: Uint8Array, widthPx: number, heightPx: number, colorSpace: PdfColorSpace = 'DeviceRGB'): string {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, bytes, widthPx, heightPx, colorSpace });
+    return name;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Serialize the document to PDF bytes
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    const beginObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 catalog, 2 page tree, then images, then page/content pairs
+    const catalogId = 1;
+    const pagesId = 2;
+    const firstImageId = 3;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+    const objectCount = firstPageId + this.pages.length * 2 - 1;
+
+    // Header with a binary comment so transfer tools treat the file as binary
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    beginObject(catalogId);
+    write(`<< /Type /Catalog /Pages ${pagesId} 0 R >>\nendobj\n`);
+
+    beginObject(pagesId);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>\nendobj\n`);
+
+    this.images.forEach((image, index) => {
+      beginObject(firstImageId + index);
+      write(`<< /Type /XObject /Subtype /Image /Width ${image.widthPx} /Height ${image.heightPx} ` +
+        `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`);
+      write(image.bytes);
+      write('\nendstream\nendobj\n');
+    });
+
+    const imageResources = this.images
+      .map((image, index) => `/${image.name} ${firstImageId + index} 0 R`)
+      .join(' ');
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const contentId = pageId + 1;
+      const contentBytes = encoder.encode(page.content.toString());
+
+      beginObject(pageId);
+      write(`<< /Type /Page /Parent ${pagesId} 0 R ` +
+        `/MediaBox [0 0 ${num(page.widthMm * MM_TO_PT)} ${num(page.heightMm * MM_TO_PT)}] ` +
+        `/Resources << /XObject << ${imageResources} >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+      beginObject(contentId);
+      write(`<< /Length ${contentBytes.length} >>\nstream\n`);
+      write(contentBytes);
+      write('\nendstream\nendobj\n');
+    });
+
+    // Cross-reference table; every entry must be exactly 20 bytes long
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+      write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const result = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result;
+  }
+}
@@ -0,0 +1,99 @@
+import { SheetSlot } from '../models/sheet.model';
+import { CoverCode } from '../models/cover-code.model';
+import { PdfPageContent } from './pdf-document';
+import { codeRects, encodeCoverCode, layoutCoverCode } from './cover-code';
+import { CSS_PX_PER_MM } from './sheet-layout';
+
+/**
+ * Vector parts of a cover sheet PDF, shared by the browser export and the sheet generator
+ */
+
+// Crop mark geometry, identical to the .crop-mark styles used for printing
+export const CROP_MARK_LENGTH_MM = 3;
+export const CROP_MARK_THICKNESS_MM = 0.3;
+
+// Crop lines are a 1px CSS border
+export const CROP_LINE_WIDTH_MM = 1 / CSS_PX_PER_MM;
+
+export interface CuttingGuideOptions {
+  bleedMm: number;
+  showCropMarks: boolean;
+  showCropLines: boolean;
+}
+
+/**
+ * Save the graphics state and clip to the image area of a cover, the cut area plus the bleed; end with restore()
+ */
+export function clipImageArea(content: PdfPageContent, slot: SheetSlot, bleedMm: number): void {
+  const x = slot.left - bleedMm;
+  const y = slot.top - bleedMm;
+  const widthMm = slot.width + 2 * bleedMm;
+  const heightMm = slot.height + 2 * bleedMm;
+
+  content.save();
+  if (slot.shape === 'round') {
+    content.circle(x + widthMm / 2, y + heightMm / 2, widthMm / 2);
+  } else {
+    content.rect(x, y, widthMm, heightMm);
+  }
+  content.clip();
+}
+
+/**
+ * Draw a code as vectors on top of a cover, so its modules stay sharp at any printer resolution
+ */
+export function drawCode(content: PdfPageContent, code: CoverCode, slot: SheetSlot): void {
+  const symbol = encodeCoverCode(code.kind, code.text);
+  if (!symbol) {
+    return;
+  }
+
+  const layout = layoutCoverCode(symbol, code, slot.width, slot.height, slot.shape);
+  content.fillColor(255, 255, 255)
+    .rect(slot.left + layout.x, slot.top + layout.y, layout.width, layout.height)
+    .fill()
+    .fillColor(0, 0, 0);
+  codeRects(symbol, layout).forEach(rect => content.rect(slot.left + rect.x, slot.top + rect.y, rect.width, rect.height));
+  content.fill();
+}
+
+export function drawCuttingGuides(content: PdfPageContent, slot: SheetSlot, options: CuttingGuideOptions): void {
+  const x = slot.left;
+  const y = slot.top;
+  const width = slot.width;
+  const height = slot.height;
+
+  if (options.showCropMarks && slot.shape === 'rectangular') {
+    const length = CROP_MARK_LENGTH_MM;
+    const half = CROP_MARK_THICKNESS_MM / 2;
+    const thickness = CROP_MARK_THICKNESS_MM;
+    // Marks continue the cut lines, starting outside the bleed
+    const gap = options.bleedMm;
+
+    content.save().fillColor(0, 0, 0);
+    // Horizontal marks extend left/right, vertical marks up/down from each corner
+    content
+      .rect(x - gap - length, y - half, length, thickness)
+      .rect(x - half, y - gap - length, thickness, length)
+      .rect(x + width + gap, y - half, length, thickness)
+      .rect(x + width - half, y - gap - length, thickness, length)
+      .rect(x - gap - length, y + height - half, length, thickness)
+      .rect(x - half, y + height + gap, thickness, length)
+      .rect(x + width + gap, y + height - half, length, thickness)
+      .rect(x + width - half, y + height + gap, thickness, length)
+      .fill();
+    content.restore();
+  }
+
+  if (options.showCropLines) {
+    // The CSS border sits inside the placeholder box, which is the cut area
+    const lineWidth = CROP_LINE_WIDTH_MM;
+    content.save().strokeColor(0, 0, 0).lineWidth(lineWidth);
+    if (slot.shape === 'round') {
+      content.circle(x + width / 2, y + height / 2, width / 2 - lineWidth / 2);
+    } else {
+      content.rect(x + lineWidth / 2, y + lineWidth / 2, width - lineWidth, height - lineWidth);
+    }
+    content.stroke().restore();
+  }
+}
@@ -0,0 +1,32 @@
+import { calculateEffectiveDpi, groupPreflightIssues } from './preflight';
+
+describe('preflight', () => {
+  it('should calculate the resolution of a printed image', () => {
+    // 600 pixels over two inches
+    expect(calculateEffectiveDpi(600, 50.8)).toBeCloseTo(300, 6);
+  });
+
+  it('should lower the resolution when the image is printed larger', () => {
+    expect(calculateEffectiveDpi(600, 101.6)).toBeCloseTo(150, 6);
+  });
+
+  it('should report no resolution for an image without size', () => {
+    expect(calculateEffectiveDpi(600, 0)).toBe(0);
+  });
+
+  it('should group issues by kind with the layout first', () => {
+    const groups = groupPreflightIssues([
+      { kind: 'empty', message: 'Page 1, cover 2' },
+      { kind: 'low-resolution', message: 'Page 1, cover 1: 120 DPI' },
+      { kind: 'empty', message: 'Page 1, cover 3' },
+      { kind: 'layout', message: 'Pictures do not fit' }
+    ]);
+
+    expect(groups.map(group => group.kind)).toEqual(['layout', 'empty', 'low-resolution']);
+    expect(groups[1].issues.map(issue => issue.message)).toEqual(['Page 1, cover 2', 'Page 1, cover 3']);
+  });
+
+  it('should return no groups without issues', () => {
+    expect(groupPreflightIssues([])).toEqual([]);
+  });
+});
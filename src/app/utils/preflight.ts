@@ -0,0 +1,29 @@
+import { PreflightGroup, PreflightIssue, PreflightIssueKind } from '../models/preflight.model';
+
+const GROUP_TITLES: Record<PreflightIssueKind, string> = {
+  'layout': 'Layout',
+  'empty': 'Empty placeholders',
+  'low-resolution': 'Low resolution',
+  'code': 'Codes that may not scan',
+  'whitespace': 'Visible whitespace'
+};
+
+/**
+ * Image pixels per inch on paper when the given number of pixels is printed over the given width.
+ * Zooming in spreads the same pixels over more paper and lowers the resolution.
+ */
+export function calculateEffectiveDpi(imagePixels: number, printedMm: number): number {
+  if (printedMm <= 0) {
+    return 0;
+  }
+  return imagePixels / (printedMm / 25.4);
+}
+
+/**
+ * Group preflight issues by kind in a fixed order, the most serious first; kinds without issues are left out
+ */
+export function groupPreflightIssues(issues: PreflightIssue[]): PreflightGroup[] {
+  return (Object.keys(GROUP_TITLES) as PreflightIssueKind[])
+    .map(kind => ({ kind, title: GROUP_TITLES[kind], issues: issues.filter(issue => issue.kind === kind) }))
+    .filter(group => group.issues.length > 0);
+}
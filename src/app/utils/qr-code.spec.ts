@@ -0,0 +1,41 @@
+import { encodeQrCode } from './qr-code';
+
+describe('QR code', () => {
+  // Finder pattern: dark ring, light ring and a dark 3 x 3 centre
+  const isFinder = (modules: boolean[][], left: number, top: number) =>
+    Array.from({ length: 7 }, (_, y) => Array.from({ length: 7 }, (_, x) => {
+      const distance = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      return modules[top + y][left + x] === (distance !== 2);
+    }).every(Boolean)).every(Boolean);
+
+  it('should use the smallest version that holds the text', () => {
+    // Version 1 at level M holds 14 bytes
+    expect(encodeQrCode('x'.repeat(14))?.length).toBe(21);
+    expect(encodeQrCode('x'.repeat(15))?.length).toBe(25);
+    expect(encodeQrCode('https://teddycloud.local/web/tonies/E00403500E123456')?.length).toBe(33);
+  });
+
+  it('should count UTF-8 bytes', () => {
+    expect(encodeQrCode('ä'.repeat(7))?.length).toBe(21);
+    expect(encodeQrCode('ä'.repeat(8))?.length).toBe(25);
+  });
+
+  it('should draw the finder and timing patterns', () => {
+    const modules = encodeQrCode('E0:04:03:50:0E:12:34:56') as boolean[][];
+    const size = modules.length;
+
+    expect(isFinder(modules, 0, 0)).toBeTrue();
+    expect(isFinder(modules, size - 7, 0)).toBeTrue();
+    expect(isFinder(modules, 0, size - 7)).toBeTrue();
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBeTrue();
+  });
+
+  it('should reject text beyond version 40', () => {
+    expect(encodeQrCode('x'.repeat(2331))?.length).toBe(177);
+    expect(encodeQrCode('x'.repeat(2332))).toBeNull();
+  });
+});
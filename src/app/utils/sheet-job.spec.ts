@@ -0,0 +1,69 @@
+import { frameCrop, parseSheetJob, renderSheetJob } from './sheet-job';
+
+describe('sheet job', () => {
+  // Header of an 800 × 600 baseline JPEG, enough to embed it
+  const jpeg = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03, ...Array(9).fill(0), 0xff, 0xd9
+  ]);
+  const readFile = async () => jpeg;
+  const image = { imageWidth: 800, imageHeight: 600, offsetX: 0, offsetY: 0, scale: 1, rotation: 0, flipHorizontal: false, flipVertical: false };
+  const area = { width: 100, height: 100 };
+
+  it('should fill in the defaults of the app', () => {
+    const job = parseSheetJob({ images: ['cover.jpg'] });
+
+    expect([job.paperWidthMm, job.paperHeightMm]).toEqual([100, 150]);
+    expect([job.coverWidthMm, job.coverHeightMm, job.shape]).toEqual([44, 44, 'rectangular']);
+    expect(job.cropMarks).toBeTrue();
+    expect(job.images).toEqual([{ file: 'cover.jpg', crop: null, rotation: 0, flipHorizontal: false, flipVertical: false, code: null }]);
+  });
+
+  it('should turn the paper for landscape and make round covers as high as wide', () => {
+    const job = parseSheetJob({ paper: 'a4', orientation: 'landscape', cover: { widthMm: 40, heightMm: 60, shape: 'round' }, images: ['cover.jpg'] });
+
+    expect([job.paperWidthMm, job.paperHeightMm]).toEqual([297, 210]);
+    expect(job.coverHeightMm).toBe(40);
+  });
+
+  it('should name the field of an invalid job', () => {
+    expect(() => parseSheetJob({ images: [] })).toThrowError(/at least one picture/);
+    expect(() => parseSheetJob({ paper: 'a3', images: ['cover.jpg'] })).toThrowError(/Unknown paper "a3"/);
+    expect(() => parseSheetJob({ images: [{ file: 'cover.jpg', crop: { x: 0, y: 0, width: 0, height: 10 } }] }))
+      .toThrowError(/images\[0\]\.crop\.width/);
+    expect(() => parseSheetJob({ images: [{ file: 'cover.jpg', code: { text: 'x', placement: 'back' } }] }))
+      .toThrowError(/images\[0\]\.code\.placement/);
+  });
+
+  it('should frame the crop to fill the cover', () => {
+    const framing = frameCrop(image, { x: 0, y: 0, width: 300, height: 300 }, area, false);
+
+    expect(framing.scale).toBeCloseTo(1 / 3);
+    expect(framing.offsetX).toBeCloseTo(0);
+    expect(framing.offsetY).toBeCloseTo(0);
+  });
+
+  it('should keep the cover filled for crops beyond the picture', () => {
+    const framing = frameCrop(image, { x: 700, y: 0, width: 300, height: 300 }, area, false);
+
+    expect(framing.offsetX).toBeCloseTo(100 - 800 / 3);
+  });
+
+  it('should put the pictures on as many pages as they need and embed each file once', async () => {
+    const job = parseSheetJob({ paper: 'a4', images: Array(25).fill('cover.jpg') });
+    const result = await renderSheetJob(job, readFile);
+    const text = new TextDecoder('latin1').decode(result.pdf);
+
+    expect(result.pageCount).toBe(2);
+    expect(text.match(/\/Subtype \/Image/g)?.length).toBe(1);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn about blurry covers and reject files that are not JPEG', async () => {
+    const zoomed = parseSheetJob({ images: [{ file: 'cover.jpg', crop: { x: 0, y: 0, width: 100, height: 100 } }] });
+    expect((await renderSheetJob(zoomed, readFile)).warnings).toEqual(['Page 1, cover 1 (cover.jpg): 58 DPI']);
+
+    const png = parseSheetJob({ images: ['cover.png'] });
+    await expectAsync(renderSheetJob(png, async () => new Uint8Array([0x89, 0x50, 0x4e, 0x47])))
+      .toBeRejectedWithError(/"cover.png" is not a JPEG file/);
+  });
+});
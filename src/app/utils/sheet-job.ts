@@ -0,0 +1,380 @@
+import { PaperOrientation, PAPER_SIZES } from '../models/paper.model';
+import { PlaceholderShape, SheetSlot } from '../models/sheet.model';
+import { CoverCode, CoverCodeKind, CoverCodePlacement, DEFAULT_COVER_CODE } from '../models/cover-code.model';
+import { DEFAULT_MINIMUM_DPI } from '../models/preflight.model';
+import { PdfDocument, PdfPageContent } from './pdf-document';
+import { clipImageArea, drawCode, drawCuttingGuides } from './pdf-sheet';
+import { findCodeProblem } from './cover-code';
+import { calculateEffectiveDpi } from './preflight';
+import { orientationMatrix, readJpegInfo } from './jpeg-info';
+import {
+  calculateGrid, calculateMinimumScale, constrainOffset, CSS_PX_PER_MM, fitImageToPlaceholder, FramedImage, Framing,
+  getImageArea, getRotation, ImageArea
+} from './sheet-layout';
+
+/**
+ * Cover sheets described as JSON and rendered to PDF without a browser, for scripts like TeddyCloud imports.
+ * Pictures are JPEG files embedded as they are; their crop, rotation and flips become PDF transforms.
+ */
+
+// Part of a picture shown on the cover, in pixels of the upright picture
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SheetJobImage {
+  // Path of a JPEG file, relative to the job file
+  file: string;
+  // Null for a centred picture filling the cover
+  crop: ImageCrop | null;
+  // Degrees clockwise around the picture centre
+  rotation: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  code: CoverCode | null;
+}
+
+export interface SheetJob {
+  paperWidthMm: number;
+  paperHeightMm: number;
+  // Cut area of every cover; round covers use the width as diameter
+  coverWidthMm: number;
+  coverHeightMm: number;
+  shape: PlaceholderShape;
+  marginMm: number;
+  spacingMm: number;
+  bleedMm: number;
+  staggered: boolean;
+  cropMarks: boolean;
+  cropLines: boolean;
+  allowWhitespace: boolean;
+  minimumDpi: number;
+  images: SheetJobImage[];
+}
+
+export interface SheetJobResult {
+  pdf: Uint8Array;
+  pageCount: number;
+  // Covers that will print blurry or codes that may not scan, one line each
+  warnings: string[];
+}
+
+// A JPEG file ready for drawing
+interface JobPicture {
+  name: string;
+  // Stored pixels
+  rawWidth: number;
+  rawHeight: number;
+  // Upright size after the EXIF orientation
+  width: number;
+  height: number;
+  orientation: number;
+}
+
+const CODE_PLACEMENTS: CoverCodePlacement[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'fill'];
+
+/**
+ * Check a parsed JSON job and fill in the defaults of the app.
+ * Throws an Error with a message naming the offending field.
+ */
+export function parseSheetJob(data: unknown): SheetJob {
+  const job = data as Record<string, unknown> | null;
+  if (!job || typeof job !== 'object' || Array.isArray(job)) {
+    throw new Error('The job must be a JSON object.');
+  }
+
+  const { widthMm: paperWidthMm, heightMm: paperHeightMm } = parsePaper(job['paper'], job['orientation']);
+  const cover = (job['cover'] ?? {}) as Record<string, unknown>;
+  const shape = optionalChoice<PlaceholderShape>(cover['shape'], ['rectangular', 'round'], 'rectangular', 'cover.shape');
+  const coverWidthMm = positiveNumber(cover['widthMm'], 44, 'cover.widthMm');
+
+  if (!Array.isArray(job['images']) || job['images'].length === 0) {
+    throw new Error('"images" must list at least one picture.');
+  }
+
+  return {
+    paperWidthMm,
+    paperHeightMm,
+    coverWidthMm,
+    coverHeightMm: shape === 'round' ? coverWidthMm : positiveNumber(cover['heightMm'], 44, 'cover.heightMm'),
+    shape,
+    marginMm: nonNegativeNumber(job['marginMm'], 4, 'marginMm'),
+    spacingMm: nonNegativeNumber(job['spacingMm'], 2, 'spacingMm'),
+    bleedMm: nonNegativeNumber(job['bleedMm'], 0, 'bleedMm'),
+    staggered: optionalBoolean(job['staggered'], false, 'staggered'),
+    cropMarks: optionalBoolean(job['cropMarks'], true, 'cropMarks'),
+    cropLines: optionalBoolean(job['cropLines'], false, 'cropLines'),
+    allowWhitespace: optionalBoolean(job['allowWhitespace'], false, 'allowWhitespace'),
+    minimumDpi: positiveNumber(job['minimumDpi'], DEFAULT_MINIMUM_DPI, 'minimumDpi'),
+    images: job['images'].map((image, index) => parseImage(image, `images[${index}]`))
+  };
+}
+
+/**
+ * Lay the pictures out on as many sheets as they need and write the PDF.
+ * `readFile` loads a picture by the path given in the job.
+ */
+export async function renderSheetJob(job: SheetJob, readFile: (path: string) => Promise<Uint8Array>): Promise<SheetJobResult> {
+  const grid = calculateGrid({
+    paperWidthMm: job.paperWidthMm,
+    paperHeightMm: job.paperHeightMm,
+    pictureWidthMm: job.coverWidthMm,
+    pictureHeightMm: job.coverHeightMm,
+    shape: job.shape,
+    marginMm: job.marginMm,
+    spacingMm: job.spacingMm,
+    bleedMm: job.bleedMm,
+    hexPacking: job.staggered
+  });
+  if (grid.error) {
+    throw new Error(grid.error);
+  }
+
+  const pdf = new PdfDocument();
+  const pictures = new Map<string, JobPicture>();
+  const warnings: string[] = [];
+  const pageCount = Math.ceil(job.images.length / grid.slots.length);
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const content = pdf.addPage(job.paperWidthMm, job.paperHeightMm);
+    const images = job.images.slice(pageIndex * grid.slots.length, (pageIndex + 1) * grid.slots.length);
+
+    for (const [index, image] of images.entries()) {
+      if (!pictures.has(image.file)) {
+        pictures.set(image.file, await embedPicture(pdf, image.file, readFile));
+      }
+      const label = `Page ${pageIndex + 1}, cover ${index + 1} (${image.file})`;
+      warnings.push(...drawJobCover(content, grid.slots[index], image, pictures.get(image.file) as JobPicture, job, label));
+    }
+
+    // Cutting guides go on top of the images, for empty slots as well
+    const guides = { bleedMm: job.bleedMm, showCropMarks: job.cropMarks, showCropLines: job.cropLines };
+    grid.slots.forEach(slot => drawCuttingGuides(content, slot, guides));
+  }
+
+  return { pdf: pdf.toBytes(), pageCount, warnings };
+}
+
+/**
+ * Framing of a picture so the crop fills the image area, centred on the crop.
+ * Without whitespace the picture still covers the whole area.
+ */
+export function frameCrop(image: FramedImage & { flipHorizontal: boolean; flipVertical: boolean }, crop: ImageCrop, area: ImageArea, allowWhitespace: boolean): Framing {
+  // The area measured along the edges of the rotated picture, like calculateMinimumScale()
+  const { cos, sin } = getRotation(image);
+  let scale = Math.max(
+    (area.width * cos + area.height * sin) / crop.width,
+    (area.width * sin + area.height * cos) / crop.height
+  );
+  if (!allowWhitespace) {
+    scale = Math.max(scale, calculateMinimumScale(image, area));
+  }
+
+  // Crop centre relative to the picture centre, flipped and rotated like the picture
+  const angle = (image.rotation || 0) * Math.PI / 180;
+  const dx = (crop.x + crop.width / 2 - image.imageWidth / 2) * scale * (image.flipHorizontal ? -1 : 1);
+  const dy = (crop.y + crop.height / 2 - image.imageHeight / 2) * scale * (image.flipVertical ? -1 : 1);
+  const centerX = area.width / 2 - (dx * Math.cos(angle) - dy * Math.sin(angle));
+  const centerY = area.height / 2 - (dx * Math.sin(angle) + dy * Math.cos(angle));
+
+  const framing = {
+    offsetX: centerX - image.imageWidth * scale / 2,
+    offsetY: centerY - image.imageHeight * scale / 2,
+    scale
+  };
+  return allowWhitespace ? framing : { ...framing, ...constrainOffset({ ...image, ...framing }, area, framing.offsetX, framing.offsetY) };
+}
+
+async function embedPicture(pdf: PdfDocument, file: string, readFile: (path: string) => Promise<Uint8Array>): Promise<JobPicture> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(file);
+  } catch {
+    throw new Error(`"${file}" could not be read.`);
+  }
+
+  const info = readJpegInfo(bytes);
+  if (!info) {
+    throw new Error(`"${file}" is not a JPEG file. Convert pictures in other formats to JPEG first.`);
+  }
+  if (info.components !== 1 && info.components !== 3) {
+    throw new Error(`"${file}" is a CMYK JPEG. Save it with RGB colours.`);
+  }
+
+  const name = pdf.addJpeg(bytes, info.widthPx, info.heightPx, info.components === 1 ? 'DeviceGray' : 'DeviceRGB');
+  const turned = info.orientation >= 5;
+  return {
+    name,
+    rawWidth: info.widthPx,
+    rawHeight: info.heightPx,
+    width: turned ? info.heightPx : info.widthPx,
+    height: turned ? info.widthPx : info.heightPx,
+    orientation: info.orientation
+  };
+}
+
+/**
+ * Draw a picture into its slot with the same transform as the preview; returns the warnings for this cover
+ */
+function drawJobCover(
+  content: PdfPageContent,
+  slot: SheetSlot,
+  image: SheetJobImage,
+  picture: JobPicture,
+  job: SheetJob,
+  label: string
+): string[] {
+  const area = getImageArea(slot, job.bleedMm);
+  const framed = {
+    imageWidth: picture.width,
+    imageHeight: picture.height,
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+    rotation: image.rotation,
+    flipHorizontal: image.flipHorizontal,
+    flipVertical: image.flipVertical
+  };
+  const framing = image.crop
+    ? frameCrop(framed, image.crop, area, job.allowWhitespace)
+    : fitImageToPlaceholder(framed, area, job.allowWhitespace);
+
+  const angle = image.rotation * Math.PI / 180;
+  const toMm = framing.scale / CSS_PX_PER_MM;
+  const [a, b, c, d] = orientationMatrix(picture.orientation);
+
+  clipImageArea(content, slot, job.bleedMm);
+  content.save()
+    // Picture centre, then rotation and flips around it, like the CSS transform of the preview
+    .transform(1, 1,
+      slot.left - job.bleedMm + (framing.offsetX + picture.width * framing.scale / 2) / CSS_PX_PER_MM,
+      slot.top - job.bleedMm + (framing.offsetY + picture.height * framing.scale / 2) / CSS_PX_PER_MM)
+    .concat(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0)
+    .transform((image.flipHorizontal ? -1 : 1) * toMm, (image.flipVertical ? -1 : 1) * toMm, 0, 0)
+    // Stored pixels turned upright
+    .concat(a, b, c, d, 0, 0)
+    .image(picture.name, -picture.rawWidth / 2, -picture.rawHeight / 2, picture.rawWidth, picture.rawHeight)
+    .restore();
+  if (image.code) {
+    drawCode(content, image.code, slot);
+  }
+  content.restore();
+
+  const warnings: string[] = [];
+  const dpi = calculateEffectiveDpi(picture.width, picture.width * framing.scale / CSS_PX_PER_MM);
+  if (dpi < job.minimumDpi) {
+    warnings.push(`${label}: ${Math.round(dpi)} DPI`);
+  }
+  const problem = image.code && findCodeProblem(image.code, slot.width, slot.height, slot.shape);
+  if (problem) {
+    warnings.push(`${label}: ${problem}`);
+  }
+  return warnings;
+}
+
+function parsePaper(paper: unknown, orientation: unknown): { widthMm: number; heightMm: number } {
+  let widthMm: number;
+  let heightMm: number;
+  if (paper === undefined || typeof paper === 'string') {
+    const size = PAPER_SIZES.find(candidate => candidate.id === (paper ?? PAPER_SIZES[0].id));
+    if (!size) {
+      throw new Error(`Unknown paper "${paper}". Use one of ${PAPER_SIZES.map(candidate => candidate.id).join(', ')} or { "widthMm", "heightMm" }.`);
+    }
+    ({ widthMm, heightMm } = size);
+  } else {
+    const custom = (paper ?? {}) as Record<string, unknown>;
+    widthMm = positiveNumber(custom['widthMm'], NaN, 'paper.widthMm');
+    heightMm = positiveNumber(custom['heightMm'], NaN, 'paper.heightMm');
+  }
+
+  // Paper sizes are defined upright; landscape swaps width and height
+  const landscape = optionalChoice<PaperOrientation>(orientation, ['portrait', 'landscape'], 'portrait', 'orientation') === 'landscape';
+  return landscape ? { widthMm: heightMm, heightMm: widthMm } : { widthMm, heightMm };
+}
+
+function parseImage(data: unknown, field: string): SheetJobImage {
+  // A plain path is a centred picture
+  const image = (typeof data === 'string' ? { file: data } : data) as Record<string, unknown> | null;
+  if (!image || typeof image !== 'object' || typeof image['file'] !== 'string' || !image['file']) {
+    throw new Error(`${field} needs the path of a JPEG file in "file".`);
+  }
+
+  let crop: ImageCrop | null = null;
+  if (image['crop'] !== undefined && image['crop'] !== null) {
+    const value = image['crop'] as Record<string, unknown>;
+    crop = {
+      x: nonNegativeNumber(value['x'], NaN, `${field}.crop.x`),
+      y: nonNegativeNumber(value['y'], NaN, `${field}.crop.y`),
+      width: positiveNumber(value['width'], NaN, `${field}.crop.width`),
+      height: positiveNumber(value['height'], NaN, `${field}.crop.height`)
+    };
+  }
+
+  let code: CoverCode | null = null;
+  if (image['code'] !== undefined && image['code'] !== null) {
+    const value = image['code'] as Record<string, unknown>;
+    if (typeof value['text'] !== 'string' || !value['text']) {
+      throw new Error(`${field}.code needs the text or link of the code in "text".`);
+    }
+    code = {
+      kind: optionalChoice<CoverCodeKind>(value['kind'], ['qr', 'code128'], DEFAULT_COVER_CODE.kind, `${field}.code.kind`),
+      text: value['text'],
+      placement: optionalChoice(value['placement'], CODE_PLACEMENTS, DEFAULT_COVER_CODE.placement, `${field}.code.placement`),
+      sizeMm: positiveNumber(value['sizeMm'], DEFAULT_COVER_CODE.sizeMm, `${field}.code.sizeMm`)
+    };
+  }
+
+  const rotation = image['rotation'] ?? 0;
+  if (typeof rotation !== 'number' || !Number.isFinite(rotation)) {
+    throw new Error(`${field}.rotation must be a number of degrees.`);
+  }
+
+  return {
+    file: image['file'],
+    crop,
+    rotation,
+    flipHorizontal: optionalBoolean(image['flipHorizontal'], false, `${field}.flipHorizontal`),
+    flipVertical: optionalBoolean(image['flipVertical'], false, `${field}.flipVertical`),
+    code
+  };
+}
+
+// A number above zero; NaN as fallback makes the field required
+function positiveNumber(value: unknown, fallback: number, field: string): number {
+  const number = value === undefined ? fallback : value;
+  if (typeof number !== 'number' || !(number > 0)) {
+    throw new Error(`${field} must be a number above 0.`);
+  }
+  return number;
+}
+
+function nonNegativeNumber(value: unknown, fallback: number, field: string): number {
+  const number = value === undefined ? fallback : value;
+  if (typeof number !== 'number' || !(number >= 0)) {
+    throw new Error(`${field} must be a number of at least 0.`);
+  }
+  return number;
+}
+
+function optionalBoolean(value: unknown, fallback: boolean, field: string): boolean {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'boolean') {
+    throw new Error(`${field} must be true or false.`);
+  }
+  return value;
+}
+
+function optionalChoice<T extends string>(value: unknown, choices: T[], fallback: T, field: string): T {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(`${field} must be one of ${choices.join(', ')}.`);
+  }
+  return value as T;
+}
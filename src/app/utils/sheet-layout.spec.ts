@@ -0,0 +1,81 @@
+import { calculateGrid, calculateMinimumScale, constrainOffset, fitImageToPlaceholder, GridOptions } from './sheet-layout';
+
+describe('sheet layout', () => {
+  const a4: GridOptions = {
+    paperWidthMm: 210,
+    paperHeightMm: 297,
+    pictureWidthMm: 44,
+    pictureHeightMm: 44,
+    shape: 'rectangular',
+    marginMm: 4,
+    spacingMm: 2,
+    bleedMm: 0,
+    hexPacking: false
+  };
+  const image = { imageWidth: 800, imageHeight: 600, offsetX: 0, offsetY: 0, scale: 1, rotation: 0 };
+  const area = { width: 100, height: 100 };
+
+  it('should centre a grid of covers on the paper', () => {
+    const grid = calculateGrid(a4);
+
+    expect(grid.error).toBeNull();
+    expect([grid.columns, grid.rows]).toEqual([4, 6]);
+    expect(grid.slots.length).toBe(24);
+    expect(grid.slots[0]).toEqual({ left: 14, top: 11.5, width: 44, height: 44, shape: 'rectangular' });
+    expect(grid.slots[1].left).toBe(60);
+  });
+
+  it('should keep the bleed between the tiles', () => {
+    const grid = calculateGrid({ ...a4, bleedMm: 2 });
+
+    expect(grid.slots[1].left - grid.slots[0].left).toBe(44 + 2 * 2 + 2);
+  });
+
+  it('should stagger round covers and count the extra covers', () => {
+    const grid = calculateGrid({ ...a4, pictureWidthMm: 30, shape: 'round', hexPacking: true });
+
+    expect(grid.slots.length).toBe(60);
+    expect(grid.hexPackingGain).toBe(6);
+    expect(grid.slots.every(slot => slot.shape === 'round' && slot.height === 30)).toBeTrue();
+  });
+
+  it('should keep the square grid when staggered rows fit fewer covers', () => {
+    // Two by two covers fill the area exactly, staggered rows only fit three
+    const grid = calculateGrid({ ...a4, paperWidthMm: 108, paperHeightMm: 108, pictureWidthMm: 50, spacingMm: 0, shape: 'round', hexPacking: true });
+
+    expect(grid.slots.length).toBe(4);
+    expect(grid.hexPackingGain).toBe(0);
+    expect(grid.slots[3]).toEqual({ left: 54, top: 54, width: 50, height: 50, shape: 'round' });
+  });
+
+  it('should explain covers that do not fit on the paper', () => {
+    const grid = calculateGrid({ ...a4, pictureWidthMm: 205 });
+
+    expect(grid.slots).toEqual([]);
+    expect(grid.error).toContain('exceeds paper width (210mm)');
+  });
+
+  it('should fit new pictures to fill the cover or to be entirely visible', () => {
+    const cover = fitImageToPlaceholder(image, area, false);
+    const contain = fitImageToPlaceholder(image, area, true);
+
+    expect(cover.scale).toBeCloseTo(1 / 6);
+    expect(cover.offsetX).toBeCloseTo(50 - 400 / 6);
+    expect(cover.offsetY).toBeCloseTo(0);
+    expect(contain.scale).toBeCloseTo(0.125);
+    expect(contain.offsetY).toBeCloseTo(12.5);
+  });
+
+  it('should need a larger zoom for rotated pictures', () => {
+    expect(calculateMinimumScale({ ...image, rotation: 90 }, area)).toBeCloseTo(100 / 600);
+    expect(calculateMinimumScale({ ...image, rotation: 45 }, area)).toBeCloseTo(100 * Math.SQRT2 / 600);
+  });
+
+  it('should keep the cover filled when a picture is moved too far', () => {
+    const framed = { ...image, scale: 1 / 6 };
+
+    expect(constrainOffset(framed, area, 20, 10).offsetX).toBeCloseTo(0);
+    expect(constrainOffset(framed, area, -50, 10).offsetX).toBeCloseTo(100 - 800 / 6);
+    expect(constrainOffset(framed, area, -10, 10).offsetY).toBeCloseTo(0);
+  });
+});
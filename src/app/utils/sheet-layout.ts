@@ -0,0 +1,237 @@
+import { PlaceholderImage, PlaceholderShape, SheetSlot } from '../models/sheet.model';
+import { packCirclesHex } from './hex-packing';
+
+/**
+ * Sheet layout and crop maths without Angular or the DOM, shared by the app and the sheet generator.
+ * Layout is in mm; image offsets and scales are in CSS pixels, like the on-screen preview.
+ */
+
+// CSS pixels per mm: browsers show 96 CSS pixels per inch on paper
+export const CSS_PX_PER_MM = 96 / 25.4;
+
+export interface GridOptions {
+  paperWidthMm: number;
+  paperHeightMm: number;
+  // Cut area of every cover; round covers use the width as diameter
+  pictureWidthMm: number;
+  pictureHeightMm: number;
+  shape: PlaceholderShape;
+  marginMm: number;
+  spacingMm: number;
+  // The picture extends this far beyond the cut line (mm)
+  bleedMm: number;
+  // Staggered rows, only for round covers
+  hexPacking: boolean;
+}
+
+export interface GridLayout {
+  slots: SheetSlot[];
+  rows: number;
+  columns: number;
+  // Covers staggered rows fit in addition to the square grid
+  hexPackingGain: number;
+  // Why the covers don't fit on the paper, null for a valid layout
+  error: string | null;
+}
+
+// Image framing of a picture, the part of its content the crop maths needs
+export type FramedImage = Pick<PlaceholderImage, 'imageWidth' | 'imageHeight' | 'offsetX' | 'offsetY' | 'scale' | 'rotation'>;
+
+export interface Framing {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+}
+
+// Image area of a cover in CSS pixels: the cut area plus the bleed on every side
+export interface ImageArea {
+  width: number;
+  height: number;
+}
+
+/**
+ * Arrange covers of one size in a centred grid, or in staggered rows for round covers
+ */
+export function calculateGrid(options: GridOptions): GridLayout {
+  const { paperWidthMm, paperHeightMm, marginMm, spacingMm, bleedMm } = options;
+  const pictureWidthMm = options.pictureWidthMm;
+  const pictureHeightMm = options.shape === 'round' ? options.pictureWidthMm : options.pictureHeightMm;
+
+  // Each tile is the cut area plus the bleed on both sides; spacing and margins are measured between tiles
+  const tileWidthMm = pictureWidthMm + 2 * bleedMm;
+  const tileHeightMm = pictureHeightMm + 2 * bleedMm;
+  const bleedNote = bleedMm > 0 ? ` plus bleed (2×${bleedMm}mm)` : '';
+  const failed = (error: string): GridLayout => ({ slots: [], rows: 0, columns: 0, hexPackingGain: 0, error });
+
+  // Check if picture size (with margins) exceeds paper size
+  const minRequiredWidth = tileWidthMm + (2 * marginMm);
+  const minRequiredHeight = tileHeightMm + (2 * marginMm);
+
+  if (minRequiredWidth > paperWidthMm) {
+    return failed(`Error: Picture width (${pictureWidthMm}mm)${bleedNote} plus margins (2×${marginMm}mm = ${2*marginMm}mm) exceeds paper width (${paperWidthMm}mm). Required: ${minRequiredWidth}mm, available: ${paperWidthMm}mm.`);
+  }
+
+  if (minRequiredHeight > paperHeightMm) {
+    return failed(`Error: Picture height (${pictureHeightMm}mm)${bleedNote} plus margins (2×${marginMm}mm = ${2*marginMm}mm) exceeds paper height (${paperHeightMm}mm). Required: ${minRequiredHeight}mm, available: ${paperHeightMm}mm.`);
+  }
+
+  // Calculate available space (subtracting margins from both sides)
+  const availableWidth = paperWidthMm - (2 * marginMm);
+  const availableHeight = paperHeightMm - (2 * marginMm);
+
+  // Calculate how many pictures fit
+  // Formula: floor((available + spacing) / (picture + spacing))
+  // The spacing is added to available because the last picture doesn't need spacing after it
+  const columns = Math.floor((availableWidth + spacingMm) / (tileWidthMm + spacingMm));
+  const rows = Math.floor((availableHeight + spacingMm) / (tileHeightMm + spacingMm));
+
+  // Check if no pictures can fit (even though individual size checks passed)
+  if (columns <= 0 || rows <= 0) {
+    return failed(`Error: No space for pictures on the selected paper. Picture size: ${pictureWidthMm}×${pictureHeightMm}mm, available area after margins: ${availableWidth}×${availableHeight}mm. Please reduce picture size or margins.`);
+  }
+
+  // The spacing stays the minimum gap between the circles (including their bleed)
+  const positions = options.hexPacking && options.shape === 'round'
+    ? packCirclesHex(availableWidth, availableHeight, tileWidthMm, spacingMm)
+    : [];
+  // Staggered rows are only used when they fit more covers; otherwise the square grid is kept
+  if (positions.length > rows * columns) {
+    return {
+      slots: positions.map(position => ({
+        left: marginMm + position.x + bleedMm,
+        top: marginMm + position.y + bleedMm,
+        width: pictureWidthMm,
+        height: pictureWidthMm,
+        shape: 'round'
+      })),
+      rows,
+      columns,
+      hexPackingGain: positions.length - rows * columns,
+      error: null
+    };
+  }
+
+  // Calculate total grid dimensions (without the trailing spacing)
+  const totalGridWidth = (columns * tileWidthMm) + ((columns - 1) * spacingMm);
+  const totalGridHeight = (rows * tileHeightMm) + ((rows - 1) * spacingMm);
+
+  // Center the grid within available space
+  const offsetX = marginMm + (availableWidth - totalGridWidth) / 2;
+  const offsetY = marginMm + (availableHeight - totalGridHeight) / 2;
+
+  // Calculate slot positions in mm; a slot is the cut area inside its tile
+  const slots = Array(rows * columns).fill(null).map((_, index) => {
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+
+    return {
+      left: offsetX + bleedMm + (col * (tileWidthMm + spacingMm)),
+      top: offsetY + bleedMm + (row * (tileHeightMm + spacingMm)),
+      width: pictureWidthMm,
+      height: pictureHeightMm,
+      shape: options.shape
+    };
+  });
+
+  return { slots, rows, columns, hexPackingGain: 0, error: null };
+}
+
+/**
+ * Image area of a cover in CSS pixels (96 DPI): the cut area plus the bleed on every side
+ */
+export function getImageArea(slot: Pick<SheetSlot, 'width' | 'height'>, bleedMm: number): ImageArea {
+  return {
+    width: (slot.width + 2 * bleedMm) * CSS_PX_PER_MM,
+    height: (slot.height + 2 * bleedMm) * CSS_PX_PER_MM
+  };
+}
+
+// Absolute cosine and sine of the image rotation, enough for bounding box sizes
+export function getRotation(image: Pick<PlaceholderImage, 'rotation'>): { cos: number; sin: number } {
+  const angle = (image.rotation || 0) * Math.PI / 180;
+  return { cos: Math.abs(Math.cos(angle)), sin: Math.abs(Math.sin(angle)) };
+}
+
+/**
+ * Smallest zoom at which the rotated image still covers the whole image area
+ */
+export function calculateMinimumScale(image: FramedImage, area: ImageArea): number {
+  // Size of the area measured along the edges of the rotated image.
+  // The image must be at least that wide and tall to cover the area completely.
+  const { cos, sin } = getRotation(image);
+  const minScaleX = (area.width * cos + area.height * sin) / image.imageWidth;
+  const minScaleY = (area.width * sin + area.height * cos) / image.imageHeight;
+
+  // Use the larger of the two to ensure both dimensions are covered
+  return Math.max(minScaleX, minScaleY);
+}
+
+/**
+ * Framing of a new picture: centred, filling the area ('cover'), or entirely visible ('contain') with whitespace allowed
+ */
+export function fitImageToPlaceholder(image: FramedImage, area: ImageArea, allowWhitespace: boolean): Framing {
+  let scale: number;
+  if (allowWhitespace) {
+    // The rotated image fits entirely, may show whitespace
+    const { cos, sin } = getRotation(image);
+    scale = Math.min(
+      area.width / (image.imageWidth * cos + image.imageHeight * sin),
+      area.height / (image.imageWidth * sin + image.imageHeight * cos)
+    );
+  } else {
+    // Fill the entire area, may crop the image
+    scale = calculateMinimumScale(image, area);
+  }
+
+  return {
+    offsetX: area.width / 2 - image.imageWidth * scale / 2,
+    offsetY: area.height / 2 - image.imageHeight * scale / 2,
+    scale
+  };
+}
+
+/**
+ * Clamp an image position so the image area stays fully covered.
+ * Both axes are clamped together because a rotated image couples them.
+ */
+export function constrainOffset(image: FramedImage, area: ImageArea, offsetX: number, offsetY: number): { offsetX: number; offsetY: number } {
+  // Calculate the scaled image dimensions
+  const scaledImageWidth = image.imageWidth * image.scale;
+  const scaledImageHeight = image.imageHeight * image.scale;
+
+  // Work in the frame of the rotated image, where its edges are axis-aligned.
+  // Every area corner has to lie inside the image, which limits the image centre
+  // to an axis-aligned box in this frame, so the axes can be clamped independently.
+  const angle = (image.rotation || 0) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const toImageFrame = (x: number, y: number) => ({ x: x * cos + y * sin, y: -x * sin + y * cos });
+
+  const corners = [
+    toImageFrame(0, 0),
+    toImageFrame(area.width, 0),
+    toImageFrame(0, area.height),
+    toImageFrame(area.width, area.height)
+  ];
+  const center = toImageFrame(offsetX + scaledImageWidth / 2, offsetY + scaledImageHeight / 2);
+
+  const clamp = (value: number, coordinates: number[], halfSize: number) => {
+    const min = Math.max(...coordinates) - halfSize;
+    const max = Math.min(...coordinates) + halfSize;
+
+    // If the image is smaller than the area, center it
+    if (min > max) {
+      return (min + max) / 2;
+    }
+    return Math.max(min, Math.min(max, value));
+  };
+
+  const x = clamp(center.x, corners.map(corner => corner.x), scaledImageWidth / 2);
+  const y = clamp(center.y, corners.map(corner => corner.y), scaledImageHeight / 2);
+
+  // Back to area coordinates
+  return {
+    offsetX: x * cos - y * sin - scaledImageWidth / 2,
+    offsetY: x * sin + y * cos - scaledImageHeight / 2
+  };
+}
@@ -0,0 +1,56 @@
+import { calculateSaliency, findCropFocus } from './smart-crop';
+
+describe('smart crop', () => {
+  // Grey picture with a colourful, detailed square at the given position
+  const picture = (width: number, height: number, subject?: { x: number; y: number; size: number }) => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const inSubject = subject && x >= subject.x && x < subject.x + subject.size && y >= subject.y && y < subject.y + subject.size;
+        const value = inSubject && (x + y) % 2 === 0 ? 220 : 120;
+        pixels[i] = value;
+        pixels[i + 1] = inSubject ? 40 : 120;
+        pixels[i + 2] = 120;
+        pixels[i + 3] = 255;
+      }
+    }
+    return pixels;
+  };
+
+  it('should find no interest in a flat picture', () => {
+    const saliency = calculateSaliency(picture(8, 8), 8, 8);
+
+    expect(saliency.every(value => value === 0)).toBeTrue();
+  });
+
+  it('should centre the crop of a flat picture', () => {
+    const saliency = calculateSaliency(picture(20, 40), 20, 40);
+
+    expect(findCropFocus(saliency, 20, 40, 20, 20)).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('should keep a subject at the top of a tall picture in frame', () => {
+    const saliency = calculateSaliency(picture(20, 40, { x: 6, y: 2, size: 8 }), 20, 40);
+    const focus = findCropFocus(saliency, 20, 40, 20, 20);
+
+    expect(focus.x).toBe(0.5);
+    // The square crop covers rows 0 to 19 and holds the whole subject
+    expect(focus.y).toBeCloseTo(10 / 40, 5);
+  });
+
+  it('should follow a subject to the side of a wide picture', () => {
+    const saliency = calculateSaliency(picture(60, 20, { x: 44, y: 6, size: 8 }), 60, 20);
+    const focus = findCropFocus(saliency, 60, 20, 20, 20);
+    const left = focus.x * 60 - 10;
+
+    expect(left).toBeLessThanOrEqual(44);
+    expect(left + 20).toBeGreaterThanOrEqual(52);
+  });
+
+  it('should prefer the centre when the subject fits anywhere', () => {
+    const saliency = calculateSaliency(picture(40, 20, { x: 18, y: 8, size: 4 }), 40, 20);
+
+    expect(findCropFocus(saliency, 40, 20, 20, 20).x).toBe(0.5);
+  });
+});
@@ -0,0 +1,73 @@
+import { UndoHistory } from './undo-history';
+
+describe('UndoHistory', () => {
+  let history: UndoHistory<string>;
+
+  beforeEach(() => {
+    history = new UndoHistory<string>(3, 1000);
+  });
+
+  it('should undo and redo recorded steps', () => {
+    history.record('a');
+    history.record('b');
+
+    expect(history.undo('c')).toBe('b');
+    expect(history.undo('b')).toBe('a');
+    expect(history.undo('a')).toBeNull();
+    expect(history.redo('a')).toBe('b');
+    expect(history.redo('b')).toBe('c');
+    expect(history.canRedo).toBeFalse();
+  });
+
+  it('should drop the redo steps after a new change', () => {
+    history.record('a');
+    history.undo('b');
+    history.record('a');
+
+    expect(history.canRedo).toBeFalse();
+    expect(history.canUndo).toBeTrue();
+  });
+
+  it('should merge quick changes with the same key into one step', () => {
+    history.record('a', 'zoom:1', 0);
+    history.record('b', 'zoom:1', 400);
+    history.record('c', 'zoom:1', 800);
+
+    expect(history.undo('d')).toBe('a');
+    expect(history.canUndo).toBeFalse();
+  });
+
+  it('should not merge changes with another key or after a pause', () => {
+    history.record('a', 'zoom:1', 0);
+    history.record('b', 'zoom:2', 100);
+    history.record('c', 'zoom:2', 2000);
+
+    expect(history.undo('d')).toBe('c');
+    expect(history.undo('c')).toBe('b');
+    expect(history.undo('b')).toBe('a');
+  });
+
+  it('should not merge into a step that was undone', () => {
+    history.record('a', 'zoom:1', 0);
+    history.undo('b');
+    history.record('a', 'zoom:1', 100);
+
+    expect(history.canUndo).toBeTrue();
+  });
+
+  it('should keep at most the configured number of steps', () => {
+    ['a', 'b', 'c', 'd'].forEach(state => history.record(state));
+
+    expect(history.undo('e')).toBe('d');
+    expect(history.undo('d')).toBe('c');
+    expect(history.undo('c')).toBe('b');
+    expect(history.undo('b')).toBeNull();
+  });
+
+  it('should list the states undo and redo can return to', () => {
+    ['a', 'b', 'c', 'd'].forEach(state => history.record(state));
+    history.undo('e');
+
+    expect(history.states).toEqual(['b', 'c', 'e']);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Undo and redo stacks of document snapshots.
+ * The caller records the state before every change; changes with the same merge key
+ * that follow each other quickly (wheel zooms, slider moves, typing) form a single step.
+ */
+export class UndoHistory<T> {
+  private undoStack: T[] = [];
+  private redoStack: T[] = [];
+  private lastMergeKey: string | null = null;
+  private lastRecordedAt = 0;
+
+  constructor(
+    private readonly limit = 100,
+    private readonly mergeWindowMs = 1000
+  ) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // All states that undo or redo can return to
+  get states(): T[] {
+    return [...this.undoStack, ...this.redoStack];
+  }
+
+  /**
+   * Remember the state before a change. A new change makes the undone steps unreachable.
+   */
+  record(previous: T, mergeKey: string | null = null, now = Date.now()): void {
+    const merge = mergeKey !== null &&
+      mergeKey === this.lastMergeKey &&
+      now - this.lastRecordedAt <= this.mergeWindowMs &&
+      this.undoStack.length > 0;
+
+    this.lastMergeKey = mergeKey;
+    this.lastRecordedAt = now;
+    this.redoStack = [];
+
+    if (merge) {
+      return;
+    }
+
+    this.undoStack.push(previous);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Step back: returns the state to restore, or null if there is nothing to undo
+   */
+  undo(current: T): T | null {
+    const previous = this.undoStack.pop();
+    if (previous === undefined) {
+      return null;
+    }
+
+    this.redoStack.push(current);
+    this.lastMergeKey = null;
+    return previous;
+  }
+
+  /**
+   * Step forward again after undo: returns the state to restore, or null if there is nothing to redo
+   */
+  redo(current: T): T | null {
+    const next = this.redoStack.pop();
+    if (next === undefined) {
+      return null;
+    }
+
+    this.undoStack.push(current);
+    this.lastMergeKey = null;
+    return next;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastMergeKey = null;
+  }
+}